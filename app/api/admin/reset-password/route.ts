@@ -1,42 +1,16 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
-
-function getBearer(req: Request) {
-  const h = req.headers.get("authorization") || "";
-  if (!h.toLowerCase().startsWith("bearer ")) return null;
-  return h.slice(7).trim();
-}
+import { getCaller } from "@/lib/apiAuth";
 
 export async function POST(req: Request) {
   try {
-    const token = getBearer(req);
-    if (!token) return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
-
-    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-    if (!url || !anon) return NextResponse.json({ error: "Missing public env vars" }, { status: 500 });
-
-    // validate caller (owner) via token
-    const viewer = createClient(url, anon, {
-      global: { headers: { Authorization: `Bearer ${token}` } },
-      auth: { persistSession: false },
-    });
-
-    const { data: userData, error: userErr } = await viewer.auth.getUser();
-    if (userErr || !userData?.user) return NextResponse.json({ error: "Invalid session" }, { status: 401 });
+    const { caller, error } = await getCaller(req);
+    if (error) return error;
 
-    const callerId = userData.user.id;
+    const callerId = caller.userId;
 
     // verify caller is owner
-    const { data: prof, error: profErr } = await supabaseAdmin
-      .from("profiles")
-      .select("role")
-      .eq("user_id", callerId)
-      .maybeSingle();
-
-    if (profErr) return NextResponse.json({ error: profErr.message }, { status: 500 });
-    if (!prof || prof.role !== "owner") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (caller.role !== "owner") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
 
     const body = await req.json();
     const mode = body?.mode as "cashier" | "owner";
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { phTodayYMD } from "@/lib/phTime";
+import { dayCutoffOf } from "@/lib/branchSettings";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Public, unauthenticated feed for the customer order-ready screen.
+ * Only order numbers and their kitchen stage leave this route: no amounts, items or names.
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ branchId: string }> }) {
+  try {
+    const { branchId } = await params;
+    if (!UUID_RE.test(branchId)) return NextResponse.json({ error: "Branch not found" }, { status: 404 });
+
+    const [{ data: branch, error: branchErr }, { data: settings, error: settingsErr }] = await Promise.all([
+      supabaseAdmin.from("branches").select("name").eq("id", branchId).maybeSingle(),
+      supabaseAdmin.from("branch_settings").select("branch_id,business_day_cutoff").eq("branch_id", branchId),
+    ]);
+
+    if (branchErr) return NextResponse.json({ error: branchErr.message }, { status: 500 });
+    if (settingsErr) return NextResponse.json({ error: settingsErr.message }, { status: 500 });
+    if (!branch) return NextResponse.json({ error: "Branch not found" }, { status: 404 });
+
+    // a late-night branch is still on yesterday's business day (and order numbers) after midnight
+    const { data: orders, error: ordersErr } = await supabaseAdmin
+      .from("orders")
+      .select("order_no,kitchen_status,kitchen_ready_at")
+      .eq("branch_id", branchId)
+      .eq("status", "PAID")
+      .eq("business_date", phTodayYMD(dayCutoffOf(settings ?? [], branchId)))
+      .in("kitchen_status", ["QUEUED", "PREPARING", "READY"])
+      .order("kitchen_queued_at", { ascending: true });
+
+    if (ordersErr) return NextResponse.json({ error: ordersErr.message }, { status: 500 });
+
+    const rows = orders ?? [];
+    const preparing = rows.filter((o) => o.kitchen_status !== "READY").map((o) => Number(o.order_no));
+    // most recently called first
+    const ready = rows
+      .filter((o) => o.kitchen_status === "READY")
+      .sort((a, b) => String(b.kitchen_ready_at).localeCompare(String(a.kitchen_ready_at)))
+      .map((o) => Number(o.order_no));
+
+    return NextResponse.json(
+      { branch: branch.name, preparing, ready },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Unknown error" }, { status: 500 });
+  }
+}
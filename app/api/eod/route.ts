@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getCaller } from "@/lib/apiAuth";
+import { businessDayToUtcIso, phTodayYMD } from "@/lib/phTime";
+import { dayCutoffOf } from "@/lib/branchSettings";
+import { buildEodReport, fetchAll } from "@/lib/eodReport";
+
+const YMD_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Closes a branch's business day: builds the Z-reading and files it in eod_closings. Owner only. */
+export async function POST(req: Request) {
+  try {
+    const { caller, error } = await getCaller(req);
+    if (error) return error;
+
+    if (caller.role !== "owner") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const body = await req.json();
+    const branchId = body?.branch_id as string;
+    const businessDate = body?.business_date as string;
+    if (typeof branchId !== "string" || !branchId) return NextResponse.json({ error: "Missing branch_id" }, { status: 400 });
+    if (typeof businessDate !== "string" || !YMD_RE.test(businessDate)) {
+      return NextResponse.json({ error: "Invalid business_date" }, { status: 400 });
+    }
+
+    const { data: settings, error: settingsErr } = await supabaseAdmin
+      .from("branch_settings")
+      .select("branch_id,business_day_cutoff")
+      .eq("branch_id", branchId);
+    if (settingsErr) return NextResponse.json({ error: settingsErr.message }, { status: 500 });
+    const cutoff = dayCutoffOf(settings ?? [], branchId);
+
+    // an open day can still take sales (and offline replays), so only finished days are closed
+    if (businessDate >= phTodayYMD(cutoff)) {
+      return NextResponse.json({ error: "Only past business days can be closed" }, { status: 400 });
+    }
+
+    const { data: last, error: lastErr } = await supabaseAdmin
+      .from("eod_closings")
+      .select("business_date,new_grand_total")
+      .eq("branch_id", branchId)
+      .order("business_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (lastErr) return NextResponse.json({ error: lastErr.message }, { status: 500 });
+    if (last && last.business_date >= businessDate) {
+      return NextResponse.json({ error: `This branch is already closed through ${last.business_date}` }, { status: 409 });
+    }
+
+    const { startUtc, endUtc } = businessDayToUtcIso(businessDate, cutoff);
+    const [orders, lines, tenders, voided] = await Promise.all([
+      fetchAll((from, to) =>
+        supabaseAdmin
+          .from("orders")
+          .select(
+            "id,status,invoice_no,total_amount,discount_type,discount_amount,vatable_sales,vat_amount,vat_exempt_sales,zero_rated_sales"
+          )
+          .eq("branch_id", branchId)
+          .eq("business_date", businessDate)
+          .not("invoice_no", "is", null)
+          .order("invoice_no")
+          .range(from, to)
+      ),
+      fetchAll((from, to) =>
+        supabaseAdmin
+          .from("order_lines")
+          .select("order_id,discount_type,discount_amount,orders!inner(branch_id,business_date)")
+          .eq("orders.branch_id", branchId)
+          .eq("orders.business_date", businessDate)
+          .gt("discount_amount", 0)
+          .order("id")
+          .range(from, to)
+      ),
+      fetchAll((from, to) =>
+        supabaseAdmin
+          .from("order_payments")
+          .select("order_id,method,amount,orders!inner(branch_id,business_date,status)")
+          .eq("orders.branch_id", branchId)
+          .eq("orders.business_date", businessDate)
+          .eq("orders.status", "PAID")
+          .order("id")
+          .range(from, to)
+      ),
+      fetchAll((from, to) =>
+        supabaseAdmin
+          .from("orders")
+          .select("id,invoice_no,order_no,business_date,total_amount,void_reason,voided_at")
+          .eq("branch_id", branchId)
+          .eq("status", "VOIDED")
+          .gte("voided_at", startUtc)
+          .lt("voided_at", endUtc)
+          .order("voided_at")
+          .range(from, to)
+      ),
+    ]);
+
+    const closedAt = new Date().toISOString();
+    const report = buildEodReport({
+      branchId,
+      businessDate,
+      closedAt,
+      orders,
+      lines,
+      tenders,
+      voided,
+      previousGrandTotal: Number(last?.new_grand_total ?? 0),
+    });
+
+    // the table's trigger re-checks the grand total chain, so a racing close fails here
+    const { data: closing, error: insErr } = await supabaseAdmin
+      .from("eod_closings")
+      .insert({
+        branch_id: branchId,
+        business_date: businessDate,
+        closed_at: closedAt,
+        closed_by: caller.userId,
+        first_invoice_no: report.first_invoice_no,
+        last_invoice_no: report.last_invoice_no,
+        net_sales: report.net_sales,
+        old_grand_total: report.old_grand_total,
+        new_grand_total: report.new_grand_total,
+        report,
+      })
+      .select("*")
+      .single();
+
+    if (insErr) {
+      if (insErr.code === "23505") return NextResponse.json({ error: "This day is already closed" }, { status: 409 });
+      return NextResponse.json({ error: insErr.message }, { status: 500 });
+    }
+    return NextResponse.json({ ok: true, closing });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Unknown error" }, { status: 500 });
+  }
+}
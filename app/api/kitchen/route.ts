@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getCaller } from "@/lib/apiAuth";
+import { KITCHEN_STAMP, nextKitchenStatus, type KitchenStatus } from "@/lib/kitchen";
+
+const KITCHEN_ROLES = ["cashier", "kitchen", "owner"];
+
+export async function POST(req: Request) {
+  try {
+    const { caller, error } = await getCaller(req);
+    if (error) return error;
+
+    if (!KITCHEN_ROLES.includes(caller.role)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const body = await req.json();
+    const orderId = body?.order_id as string;
+    const to = body?.to as KitchenStatus;
+    if (typeof orderId !== "string" || !orderId) return NextResponse.json({ error: "Missing order_id" }, { status: 400 });
+
+    const { data: order, error: orderErr } = await supabaseAdmin
+      .from("orders")
+      .select("id,branch_id,status,kitchen_status")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (orderErr) return NextResponse.json({ error: orderErr.message }, { status: 500 });
+    if (!order) return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    if (caller.role !== "owner" && order.branch_id !== caller.branchId) {
+      return NextResponse.json({ error: "Order belongs to another branch" }, { status: 403 });
+    }
+    if (order.status !== "PAID") return NextResponse.json({ error: "Order is not paid" }, { status: 409 });
+
+    // one step at a time, so two screens bumping the same ticket can't skip a stage
+    const from = order.kitchen_status as KitchenStatus | null;
+    if (!to || nextKitchenStatus(from) !== to) {
+      return NextResponse.json({ error: `Cannot move a ${from ?? "non-kitchen"} order to ${to}` }, { status: 409 });
+    }
+
+    const { data: updated, error: updErr } = await supabaseAdmin
+      .from("orders")
+      .update({ kitchen_status: to, [KITCHEN_STAMP[to]]: new Date().toISOString() })
+      .eq("id", orderId)
+      .eq("kitchen_status", from)
+      .select("id,kitchen_status,kitchen_queued_at,kitchen_started_at,kitchen_ready_at,kitchen_served_at")
+      .maybeSingle();
+
+    if (updErr) return NextResponse.json({ error: updErr.message }, { status: 500 });
+    if (!updated) return NextResponse.json({ error: "Order was updated on another screen" }, { status: 409 });
+
+    return NextResponse.json({ ok: true, order: updated });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,278 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getCaller } from "@/lib/apiAuth";
+import {
+  applyBranchOverrides,
+  checkDiscount,
+  describeProblem,
+  isOrderType,
+  isStatutory,
+  orderTypeFee,
+  priceCart,
+  priceCartAsCharged,
+  round2,
+  type BranchMenuOverride,
+  type CartLineIn,
+  type MenuPriceRow,
+  type OrderTypeFee,
+  vatBreakdown,
+} from "@/lib/pricing";
+import { checkTenders, paymentTypeOf, sumTenders } from "@/lib/tenders";
+import { groupModifiersByItem } from "@/lib/modifiers";
+
+// Offline orders can sit in the cashier's queue for a while, but not forever.
+// place_order files one whose business day has been closed on the open day.
+const MAX_BACKDATE_MS = 7 * 24 * 60 * 60 * 1000;
+
+function orderCreatedAt(clientCreatedAt: unknown) {
+  const ms = Date.parse(String(clientCreatedAt ?? ""));
+  const now = Date.now();
+  if (!Number.isFinite(ms) || ms > now || now - ms > MAX_BACKDATE_MS) return new Date(now).toISOString();
+  return new Date(ms).toISOString();
+}
+
+export async function POST(req: Request) {
+  try {
+    const { caller, error } = await getCaller(req);
+    if (error) return error;
+
+    if (caller.role !== "cashier") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!caller.branchId) return NextResponse.json({ error: "No branch assigned to this cashier." }, { status: 400 });
+
+    const body = await req.json();
+    const cart = (body?.lines ?? []) as CartLineIn[];
+    const idempotencyKey = body?.idempotency_key as string;
+    const amountTendered = body?.amount_tendered == null ? null : Number(body.amount_tendered);
+    const shiftId = body?.shift_id as string;
+    const createdAt = orderCreatedAt(body?.client_created_at);
+    const replay = body?.replay === true;
+
+    if (typeof idempotencyKey !== "string" || idempotencyKey.length < 8 || idempotencyKey.length > 100) {
+      return NextResponse.json({ error: "Missing or invalid idempotency_key" }, { status: 400 });
+    }
+
+    if (amountTendered !== null && !Number.isFinite(amountTendered)) {
+      return NextResponse.json({ error: "Invalid amount_tendered" }, { status: 400 });
+    }
+    if (!Array.isArray(cart) || cart.length === 0) {
+      return NextResponse.json({ error: "Cart is empty" }, { status: 400 });
+    }
+    const discountedCart: CartLineIn[] = [];
+    for (const l of cart) {
+      if (
+        !l?.menu_item_id ||
+        !Number.isInteger(l.qty) ||
+        l.qty <= 0 ||
+        (l.unit_price !== undefined && !Number.isFinite(l.unit_price)) ||
+        (l.modifiers !== undefined && (!Array.isArray(l.modifiers) || l.modifiers.some((m) => typeof m?.option_id !== "string")))
+      ) {
+        return NextResponse.json({ error: "Invalid cart line" }, { status: 400 });
+      }
+      const lineDiscount = checkDiscount(l.discount);
+      if (lineDiscount.error !== null) return NextResponse.json({ error: lineDiscount.error }, { status: 400 });
+      discountedCart.push({ ...l, discount: lineDiscount.discount });
+    }
+
+    const checkedDiscount = checkDiscount(body?.discount);
+    if (checkedDiscount.error !== null) return NextResponse.json({ error: checkedDiscount.error }, { status: 400 });
+    const orderDiscount = checkedDiscount.discount;
+
+    // SC/PWD is VAT-exempt + 20% and may not be stacked with any other discount
+    const statutory = isStatutory(orderDiscount?.kind) || discountedCart.some((l) => isStatutory(l.discount?.kind));
+    if (statutory && orderDiscount && discountedCart.some((l) => l.discount)) {
+      return NextResponse.json({ error: "Senior/PWD discount cannot be combined with another discount" }, { status: 400 });
+    }
+    const holderIdNo = String(body?.discount_holder?.id_no ?? "").trim();
+    const holderName = String(body?.discount_holder?.name ?? "").trim();
+    if (statutory && (holderIdNo.length < 4 || holderName.length < 2)) {
+      return NextResponse.json({ error: "Senior/PWD ID number and name are required" }, { status: 400 });
+    }
+
+    // orders queued offline before order types existed have none and pay no fee
+    const orderType = body?.order_type ?? null;
+    if (orderType !== null && !isOrderType(orderType)) {
+      return NextResponse.json({ error: "Invalid order_type" }, { status: 400 });
+    }
+    const tableNo = orderType === "DINE_IN" ? String(body?.table_no ?? "").trim().slice(0, 10) || null : null;
+    const platform = orderType === "DELIVERY" ? String(body?.platform ?? "").trim().slice(0, 30) || null : null;
+    const platformRef = orderType === "DELIVERY" ? String(body?.platform_ref ?? "").trim().slice(0, 60) || null : null;
+    if (orderType === "DELIVERY" && !platform) {
+      return NextResponse.json({ error: "Pick the delivery platform" }, { status: 400 });
+    }
+
+    // replay of an order we already recorded: hand back the original, even if the menu changed since.
+    // Only this branch's orders: a key is not a way to read another branch's order.
+    const { data: existing, error: existingErr } = await supabaseAdmin
+      .from("orders")
+      .select("id,order_no,business_date,change_due")
+      .eq("idempotency_key", idempotencyKey)
+      .eq("branch_id", caller.branchId)
+      .maybeSingle();
+
+    if (existingErr) return NextResponse.json({ error: existingErr.message }, { status: 500 });
+    if (existing) return NextResponse.json({ ok: true, order: { ...existing, duplicate: true } });
+
+    // sales belong to the shift they were rung up in; a closed shift only takes offline replays from before it closed
+    if (!shiftId) return NextResponse.json({ error: "Open a shift before taking orders" }, { status: 409 });
+    const { data: shift, error: shiftErr } = await supabaseAdmin
+      .from("cashier_shifts")
+      .select("id,closed_at")
+      .eq("id", shiftId)
+      .eq("cashier_id", caller.userId)
+      .eq("branch_id", caller.branchId)
+      .maybeSingle();
+
+    if (shiftErr) return NextResponse.json({ error: shiftErr.message }, { status: 500 });
+    if (!shift) return NextResponse.json({ error: "Shift not found for this cashier" }, { status: 409 });
+    if (shift.closed_at && Date.parse(shift.closed_at) < Date.parse(createdAt)) {
+      return NextResponse.json({ error: "Shift is already closed" }, { status: 409 });
+    }
+
+    // a scheduled price change that is already due must win over the cron's next tick
+    const { error: dueErr } = await supabaseAdmin.rpc("apply_due_menu_price_changes");
+    if (dueErr) return NextResponse.json({ error: dueErr.message }, { status: 500 });
+
+    // price every line from menu_items (with this branch's overrides), never from the client
+    const itemIds = Array.from(new Set(cart.map((l) => l.menu_item_id)));
+    const [
+      { data: items, error: itemsErr },
+      { data: overrides, error: overridesErr },
+      { data: itemGroups, error: groupsErr },
+      { data: fee, error: feeErr },
+    ] = await Promise.all([
+      supabaseAdmin.from("menu_items").select("id,name,price,is_active").in("id", itemIds),
+      supabaseAdmin
+        .from("branch_menu_items")
+        .select("menu_item_id,price,is_available")
+        .eq("branch_id", caller.branchId)
+        .in("menu_item_id", itemIds),
+      supabaseAdmin
+        .from("menu_item_modifier_groups")
+        .select("menu_item_id,sort_order,modifier_groups(id,name,min_select,max_select,is_active,modifier_options(id,name,price_delta,is_active))")
+        .in("menu_item_id", itemIds),
+      orderType
+        ? supabaseAdmin.from("order_type_fees").select("order_type,label,amount,per_item").eq("order_type", orderType).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    if (itemsErr) return NextResponse.json({ error: itemsErr.message }, { status: 500 });
+    if (overridesErr) return NextResponse.json({ error: overridesErr.message }, { status: 500 });
+    if (groupsErr) return NextResponse.json({ error: groupsErr.message }, { status: 500 });
+    if (feeErr) return NextResponse.json({ error: feeErr.message }, { status: 500 });
+
+    const groupsByItem = groupModifiersByItem(itemGroups ?? []);
+    // an item the branch doesn't carry is treated like an inactive one
+    const menu: MenuPriceRow[] = applyBranchOverrides(items ?? [], (overrides ?? []) as BranchMenuOverride[]).map(
+      ({ available, ...m }) => ({ ...m, is_active: m.is_active && available, modifier_groups: groupsByItem.get(m.id) ?? [] })
+    );
+
+    let priced = priceCart(discountedCart, menu, orderDiscount);
+    let reviewNote: string | null = null;
+
+    // an offline replay was paid before the menu changed: record it as charged and flag it for the owner.
+    // An item that no longer exists at all can't be recorded either way.
+    if (replay && priced.problems.length > 0 && !priced.problems.some((p) => p.reason === "UNKNOWN_ITEM")) {
+      reviewNote = `Offline sale recorded as charged: ${priced.problems.map(describeProblem).join("; ")}`;
+      priced = { ...priceCartAsCharged(discountedCart, menu, orderDiscount), problems: [] };
+    }
+
+    // stale menu or tampered request: nothing is written, the cashier gets the details
+    const { lines, subtotal, discount_amount: discountAmount, total: itemsTotal, problems } = priced;
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Cart does not match the current menu", problems }, { status: 409 });
+    }
+
+    // the order-type fee goes on top, after every discount
+    const orderFee = fee as OrderTypeFee | null;
+    const feeAmount = orderTypeFee(orderFee, lines.reduce((n, l) => n + l.qty, 0));
+    const totalAmount = round2(itemsTotal + feeAmount);
+    const vat = vatBreakdown(lines, subtotal, itemsTotal, orderDiscount?.kind, feeAmount);
+
+    // orders queued offline before split tenders existed carry a single payment_type
+    const rawPayments =
+      body?.payments ??
+      (body?.payment_type ? [{ method: body.payment_type, amount: totalAmount, reference: body.gcash_ref ?? null }] : null);
+
+    const checked = checkTenders(rawPayments, totalAmount);
+    if (checked.tenders === null) return NextResponse.json({ error: checked.error }, { status: 400 });
+    const tenders = checked.tenders;
+
+    const refs = tenders.filter((t) => t.reference).map((t) => t.reference as string);
+    if (refs.length > 0) {
+      const { data: used, error: usedErr } = await supabaseAdmin
+        .from("order_payments")
+        .select("reference,orders(order_no,business_date)")
+        .eq("method", "GCASH")
+        .in("reference", refs)
+        .limit(1);
+
+      if (usedErr) return NextResponse.json({ error: usedErr.message }, { status: 500 });
+      if (used && used.length > 0) {
+        const o = used[0].orders as unknown as { order_no: string | number | null; business_date: string | null } | null;
+        return NextResponse.json(
+          { error: `GCash reference ${used[0].reference} was already used on order #${o?.order_no ?? "—"} (${o?.business_date ?? ""})` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // change is worked out against the server-priced CASH tender, not whatever the screen showed
+    const cashDue = sumTenders(tenders, "CASH");
+    let cash: { amount_tendered: number; change_due: number } | null = null;
+    if (cashDue > 0) {
+      if (amountTendered === null) {
+        return NextResponse.json({ error: "Missing amount_tendered for CASH payment" }, { status: 400 });
+      }
+      const tendered = round2(amountTendered);
+      if (tendered < cashDue) {
+        return NextResponse.json(
+          { error: `Amount tendered ₱${tendered.toFixed(2)} is less than the cash due ₱${cashDue.toFixed(2)}` },
+          { status: 400 }
+        );
+      }
+      cash = { amount_tendered: tendered, change_due: round2(tendered - cashDue) };
+    }
+
+    const { data: order, error: rpcErr } = await supabaseAdmin.rpc("place_order", {
+      p_order: {
+        branch_id: caller.branchId,
+        created_by: caller.userId,
+        payment_type: paymentTypeOf(tenders),
+        total_amount: totalAmount,
+        subtotal_amount: subtotal,
+        discount_type: orderDiscount?.kind ?? null,
+        discount_value: orderDiscount?.value ?? null,
+        discount_amount: discountAmount,
+        discount_id_no: statutory ? holderIdNo : null,
+        discount_holder: statutory ? holderName : null,
+        order_type: orderType,
+        table_no: tableNo,
+        platform,
+        platform_ref: platformRef,
+        fee_label: feeAmount > 0 ? orderFee?.label ?? null : null,
+        fee_amount: feeAmount,
+        ...vat,
+        idempotency_key: idempotencyKey,
+        created_at: createdAt,
+        shift_id: shift.id,
+        amount_tendered: cash?.amount_tendered ?? null,
+        change_due: cash?.change_due ?? null,
+        review_note: reviewNote,
+      },
+      p_lines: lines,
+      p_payments: tenders,
+    });
+
+    if (rpcErr) {
+      // lost a race with another order using the same reference
+      if (rpcErr.code === "23505" && rpcErr.message.includes("reference")) {
+        return NextResponse.json({ error: `GCash reference ${refs.join(", ")} was already used` }, { status: 409 });
+      }
+      return NextResponse.json({ error: rpcErr.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true, order: { ...order, change_due: cash?.change_due ?? null } });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Unknown error" }, { status: 500 });
+  }
+}
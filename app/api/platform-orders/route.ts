@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { round2, vatBreakdown } from "@/lib/pricing";
+import { checkPlatformOrder, SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhook } from "@/lib/platformOrders";
+
+/**
+ * Webhook for delivery-platform orders. Authenticated by an HMAC signature over the
+ * raw body (no user session), so every write below goes through the service role.
+ */
+export async function POST(req: Request) {
+  try {
+    const secret = process.env.PLATFORM_WEBHOOK_SECRET;
+    if (!secret) return NextResponse.json({ error: "Webhook is not configured" }, { status: 500 });
+
+    const rawBody = await req.text();
+    if (!verifyWebhook(secret, req.headers.get(TIMESTAMP_HEADER), req.headers.get(SIGNATURE_HEADER), rawBody)) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Body is not JSON" }, { status: 400 });
+    }
+
+    const checked = checkPlatformOrder(body);
+    if (checked.order === null) return NextResponse.json({ error: checked.error }, { status: 400 });
+    const po = checked.order;
+
+    const codes = Array.from(new Set(po.items.map((i) => i.code)));
+    const [{ data: store, error: storeErr }, { data: mapped, error: mappedErr }] = await Promise.all([
+      supabaseAdmin
+        .from("platform_stores")
+        .select("branch_id")
+        .eq("platform", po.platform)
+        .eq("store_id", po.store_id)
+        .maybeSingle(),
+      supabaseAdmin
+        .from("platform_item_codes")
+        .select("code,menu_item_id")
+        .eq("platform", po.platform)
+        .in("code", codes),
+    ]);
+
+    if (storeErr) return NextResponse.json({ error: storeErr.message }, { status: 500 });
+    if (mappedErr) return NextResponse.json({ error: mappedErr.message }, { status: 500 });
+    if (!store) return NextResponse.json({ error: `Unknown ${po.platform} store ${po.store_id}` }, { status: 422 });
+
+    // an unmapped code is a setup problem on our side; the platform will retry once it's fixed
+    const itemByCode = new Map((mapped ?? []).map((m) => [m.code, m.menu_item_id as string]));
+    const unknown = codes.filter((c) => !itemByCode.has(c));
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: "Unmapped item codes", codes: unknown }, { status: 422 });
+    }
+
+    // the platform's prices are what the customer paid, so they are recorded as charged
+    const lines = po.items.map((i) => ({
+      menu_item_id: itemByCode.get(i.code),
+      qty: i.qty,
+      unit_price: i.unit_price,
+      modifiers: [],
+      discount_type: null,
+      discount_value: null,
+      discount_amount: 0,
+      line_total: round2(i.qty * i.unit_price),
+    }));
+    const total = round2(lines.reduce((s, l) => s + l.line_total, 0));
+    if (total <= 0) return NextResponse.json({ error: "Order total must be greater than 0" }, { status: 400 });
+    if (po.commission > total) return NextResponse.json({ error: "Commission is more than the order total" }, { status: 400 });
+
+    const { data: order, error: rpcErr } = await supabaseAdmin.rpc("place_order", {
+      p_order: {
+        branch_id: store.branch_id,
+        created_by: null,
+        payment_type: "PLATFORM",
+        total_amount: total,
+        subtotal_amount: total,
+        discount_amount: 0,
+        order_type: "DELIVERY",
+        platform: po.platform,
+        platform_ref: po.order_id,
+        fee_amount: 0,
+        platform_commission: po.commission,
+        ...vatBreakdown(lines, total, total, null),
+        // platform + order id: a redelivered webhook gets the original order back
+        idempotency_key: `${po.platform}:${po.order_id}`,
+        created_at: po.placed_at,
+        shift_id: null,
+      },
+      p_lines: lines,
+      p_payments: [{ method: "PLATFORM", amount: total, reference: po.order_id }],
+    });
+
+    if (rpcErr) return NextResponse.json({ error: rpcErr.message }, { status: 500 });
+    return NextResponse.json({ ok: true, order });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getCaller, type Caller } from "@/lib/apiAuth";
+import { round2 } from "@/lib/pricing";
+import { buildZReport } from "@/lib/zReport";
+
+async function getOpenShift(caller: Caller) {
+  return supabaseAdmin
+    .from("cashier_shifts")
+    .select("id,branch_id,cashier_id,opened_at,opening_float")
+    .eq("cashier_id", caller.userId)
+    .is("closed_at", null)
+    .maybeSingle();
+}
+
+export async function POST(req: Request) {
+  try {
+    const { caller, error } = await getCaller(req);
+    if (error) return error;
+
+    if (caller.role !== "cashier") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (!caller.branchId) return NextResponse.json({ error: "No branch assigned to this cashier." }, { status: 400 });
+
+    const body = await req.json();
+    const action = body?.action as "open" | "cash_move" | "close";
+
+    const { data: open, error: openErr } = await getOpenShift(caller);
+    if (openErr) return NextResponse.json({ error: openErr.message }, { status: 500 });
+
+    if (action === "open") {
+      if (open) return NextResponse.json({ error: "A shift is already open" }, { status: 409 });
+
+      const openingFloat = round2(Number(body?.opening_float));
+      if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+        return NextResponse.json({ error: "Starting float must be 0 or more" }, { status: 400 });
+      }
+
+      const { data: shift, error: insErr } = await supabaseAdmin
+        .from("cashier_shifts")
+        .insert({ branch_id: caller.branchId, cashier_id: caller.userId, opening_float: openingFloat })
+        .select("*")
+        .single();
+
+      if (insErr) return NextResponse.json({ error: insErr.message }, { status: 500 });
+      return NextResponse.json({ ok: true, shift });
+    }
+
+    if (!open) return NextResponse.json({ error: "No open shift" }, { status: 409 });
+
+    if (action === "cash_move") {
+      const kind = body?.kind as "IN" | "OUT";
+      const amount = round2(Number(body?.amount));
+      const reason = String(body?.reason ?? "").trim();
+
+      if (kind !== "IN" && kind !== "OUT") return NextResponse.json({ error: "Invalid kind" }, { status: 400 });
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return NextResponse.json({ error: "Amount must be greater than 0" }, { status: 400 });
+      }
+      if (reason.length < 3) return NextResponse.json({ error: "Please enter a reason" }, { status: 400 });
+
+      const { data: move, error: mvErr } = await supabaseAdmin
+        .from("shift_cash_moves")
+        .insert({ shift_id: open.id, kind, amount, reason, created_by: caller.userId })
+        .select("kind,amount,reason,created_at")
+        .single();
+
+      if (mvErr) return NextResponse.json({ error: mvErr.message }, { status: 500 });
+      return NextResponse.json({ ok: true, move });
+    }
+
+    if (action === "close") {
+      const countedCash = round2(Number(body?.counted_cash));
+      if (!Number.isFinite(countedCash) || countedCash < 0) {
+        return NextResponse.json({ error: "Counted cash must be 0 or more" }, { status: 400 });
+      }
+
+      const [{ data: o, error: oErr }, { data: mv, error: mvErr }] = await Promise.all([
+        supabaseAdmin.from("orders").select("id,status,total_amount").eq("shift_id", open.id),
+        supabaseAdmin.from("shift_cash_moves").select("kind,amount").eq("shift_id", open.id),
+      ]);
+      if (oErr) return NextResponse.json({ error: oErr.message }, { status: 500 });
+      if (mvErr) return NextResponse.json({ error: mvErr.message }, { status: 500 });
+
+      const orderIds = (o ?? []).map((x) => x.id);
+      let tenders: { order_id: string; method: "CASH" | "GCASH"; amount: number }[] = [];
+      if (orderIds.length > 0) {
+        const { data: t, error: tErr } = await supabaseAdmin
+          .from("order_payments")
+          .select("order_id,method,amount")
+          .in("order_id", orderIds);
+        if (tErr) return NextResponse.json({ error: tErr.message }, { status: 500 });
+        tenders = t ?? [];
+      }
+
+      const closedAt = new Date().toISOString();
+      const report = buildZReport({
+        shift: open,
+        closedAt,
+        countedCash,
+        orders: o ?? [],
+        tenders,
+        moves: mv ?? [],
+      });
+
+      // closed_at guard: a double tap on CLOSE must not overwrite the first report
+      const { data: shift, error: updErr } = await supabaseAdmin
+        .from("cashier_shifts")
+        .update({
+          closed_at: closedAt,
+          counted_cash: report.counted_cash,
+          expected_cash: report.expected_cash,
+          over_short: report.over_short,
+          report,
+        })
+        .eq("id", open.id)
+        .is("closed_at", null)
+        .select("*")
+        .maybeSingle();
+
+      if (updErr) return NextResponse.json({ error: updErr.message }, { status: 500 });
+      if (!shift) return NextResponse.json({ error: "Shift was already closed" }, { status: 409 });
+      return NextResponse.json({ ok: true, shift, report });
+    }
+
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import styles from "./cashier.module.css";
+import { STATUTORY_DISCOUNT_RATE, type Discount, type DiscountKind } from "@/lib/pricing";
+
+type Props = {
+  value: Discount | null;
+  onChange: (d: Discount | null) => void;
+};
+
+const OPTIONS: { kind: DiscountKind | null; label: string }[] = [
+  { kind: null, label: "None" },
+  { kind: "SC", label: "Senior" },
+  { kind: "PWD", label: "PWD" },
+  { kind: "PERCENT", label: "Promo %" },
+  { kind: "FIXED", label: "Promo ₱" },
+];
+
+export default function DiscountPicker({ value, onChange }: Props) {
+  const pick = (kind: DiscountKind | null) => {
+    if (!kind) onChange(null);
+    else if (kind === "SC" || kind === "PWD") onChange({ kind, value: STATUTORY_DISCOUNT_RATE * 100 });
+    else onChange({ kind, value: value?.kind === kind ? value.value : 0 });
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+        {OPTIONS.map((o) => (
+          <button
+            key={o.label}
+            onClick={() => pick(o.kind)}
+            className={`${styles.pillBtn} ${(value?.kind ?? null) === o.kind ? styles.pillBtnActive : ""}`}
+            style={{ padding: "6px 10px" }}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+
+      {value && (value.kind === "PERCENT" || value.kind === "FIXED") ? (
+        <input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          max={value.kind === "PERCENT" ? 100 : undefined}
+          step="0.01"
+          value={value.value || ""}
+          onChange={(e) => onChange({ kind: value.kind, value: Number(e.target.value || 0) })}
+          placeholder={value.kind === "PERCENT" ? "Percent off" : "Pesos off"}
+          className={styles.input}
+        />
+      ) : null}
+    </div>
+  );
+}
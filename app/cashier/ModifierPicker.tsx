@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./cashier.module.css";
+import { checkModifierSelection, modifierDelta, type LineModifier, type ModifierGroup } from "@/lib/modifiers";
+
+type Props = {
+  itemName: string;
+  basePrice: number;
+  groups: ModifierGroup[];
+  onConfirm: (modifiers: LineModifier[]) => void;
+  onCancel: () => void;
+};
+
+function groupHint(g: ModifierGroup) {
+  if (g.min_select > 0 && g.min_select === g.max_select) return `Required • choose ${g.min_select}`;
+  if (g.min_select > 0) return `Required • choose ${g.min_select}–${g.max_select}`;
+  return g.max_select === 1 ? "Optional" : `Optional • up to ${g.max_select}`;
+}
+
+export default function ModifierPicker({ itemName, basePrice, groups, onConfirm, onCancel }: Props) {
+  const [picked, setPicked] = useState<string[]>([]);
+
+  const toggle = (g: ModifierGroup, optionId: string) => {
+    setPicked((prev) => {
+      if (prev.includes(optionId)) return prev.filter((id) => id !== optionId);
+      const inGroup = g.options.filter((o) => prev.includes(o.id)).map((o) => o.id);
+      // single-choice groups behave like radio buttons
+      if (g.max_select === 1) return [...prev.filter((id) => !inGroup.includes(id)), optionId];
+      if (inGroup.length >= g.max_select) return prev;
+      return [...prev, optionId];
+    });
+  };
+
+  const selection = checkModifierSelection(groups, picked);
+  const unitPrice = basePrice + (selection.modifiers ? modifierDelta(selection.modifiers) : 0);
+
+  return (
+    <div className={styles.overlay} onClick={onCancel}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 12 }}>{itemName}</div>
+
+        <div style={{ display: "grid", gap: 14 }}>
+          {groups.map((g) => (
+            <div key={g.id}>
+              <div className={styles.rowLine} style={{ marginBottom: 6 }}>
+                <strong>{g.name}</strong>
+                <span className={styles.small}>{groupHint(g)}</span>
+              </div>
+              <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+                {g.options
+                  .filter((o) => o.is_active)
+                  .map((o) => (
+                    <button
+                      key={o.id}
+                      onClick={() => toggle(g, o.id)}
+                      className={`${styles.pillBtn} ${picked.includes(o.id) ? styles.pillBtnActive : ""}`}
+                    >
+                      {o.name}
+                      {o.price_delta ? ` ${o.price_delta > 0 ? "+" : "−"}₱${Math.abs(o.price_delta).toFixed(2)}` : ""}
+                    </button>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {selection.error ? (
+          <div className={styles.small} style={{ marginTop: 12 }}>
+            {selection.error}
+          </div>
+        ) : null}
+
+        <div style={{ display: "flex", gap: 8, marginTop: 14 }}>
+          <button
+            disabled={selection.modifiers === null}
+            onClick={() => selection.modifiers && onConfirm(selection.modifiers)}
+            className={styles.cta}
+          >
+            ADD • ₱{unitPrice.toFixed(2)}
+          </button>
+          <button onClick={onCancel} className={styles.clearBtn}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import styles from "./cashier.module.css";
+import { postShiftAction } from "@/lib/orderApi";
+import type { ShiftCashMove, ShiftRow, ZReport } from "@/lib/zReport";
+
+type Props = {
+  shift: ShiftRow | null;
+  onShiftChange: (shift: ShiftRow | null) => void;
+  // replays the offline queue and resolves with how many orders are still unsynced
+  onSync: () => Promise<number>;
+};
+
+function fmtMoney(n: number) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+export default function ShiftPanel({ shift, onShiftChange, onSync }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [moves, setMoves] = useState<ShiftCashMove[]>([]);
+  const [moveKind, setMoveKind] = useState<"IN" | "OUT">("OUT");
+  const [moveAmount, setMoveAmount] = useState("");
+  const [moveReason, setMoveReason] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [lastReport, setLastReport] = useState<ZReport | null>(null);
+
+  useEffect(() => {
+    if (!shift) return;
+    (async () => {
+      const { data, error } = await supabase
+        .from("shift_cash_moves")
+        .select("kind,amount,reason,created_at")
+        .eq("shift_id", shift.id)
+        .order("created_at", { ascending: true });
+      if (error) setMsg(error.message);
+      else setMoves((data ?? []) as ShiftCashMove[]);
+    })();
+  }, [shift]);
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setMsg("");
+    try {
+      await fn();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Shift update failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const openShift = () =>
+    run(async () => {
+      const json = await postShiftAction({ action: "open", opening_float: Number(openingFloat || 0) });
+      setOpeningFloat("");
+      setLastReport(null);
+      setMoves([]);
+      onShiftChange(json.shift);
+    });
+
+  const addMove = () =>
+    run(async () => {
+      const json = await postShiftAction({
+        action: "cash_move",
+        kind: moveKind,
+        amount: Number(moveAmount || 0),
+        reason: moveReason,
+      });
+      setMoves((prev) => [...prev, json.move]);
+      setMoveAmount("");
+      setMoveReason("");
+    });
+
+  const closeShift = () =>
+    run(async () => {
+      // offline orders belong in this shift's report, so they have to land first
+      const pending = await onSync();
+      if (pending > 0) throw new Error(`${pending} offline order(s) still waiting to sync. Reconnect before closing.`);
+
+      const ok = window.confirm(`Close shift with counted cash ${fmtMoney(Number(countedCash || 0))}?`);
+      if (!ok) return;
+
+      const json = await postShiftAction({ action: "close", counted_cash: Number(countedCash || 0) });
+      setCountedCash("");
+      setLastReport(json.report);
+      onShiftChange(null);
+    });
+
+  if (!shift) {
+    return (
+      <div className={styles.card}>
+        {lastReport ? <ZReportView report={lastReport} /> : null}
+
+        <div style={{ fontWeight: 900, marginBottom: 6 }}>Open Shift</div>
+        <div className={styles.small} style={{ marginBottom: 6 }}>Starting float (cash in drawer)</div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            placeholder="0.00"
+            className={styles.input}
+          />
+          <button disabled={busy} onClick={openShift} className={styles.pillBtn} style={{ flex: "0 0 auto" }}>
+            {busy ? "OPENING..." : "OPEN SHIFT"}
+          </button>
+        </div>
+        {msg ? <div className={styles.error} style={{ marginTop: 10 }}>{msg}</div> : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.rowLine} style={{ marginBottom: 8 }}>
+        <div>
+          <div style={{ fontWeight: 900 }}>Shift</div>
+          <div className={styles.small}>
+            Opened {new Date(shift.opened_at).toLocaleString()} • Float {fmtMoney(shift.opening_float)}
+          </div>
+        </div>
+      </div>
+
+      <div className={styles.small} style={{ marginBottom: 6 }}>Cash in / cash out</div>
+      <div style={{ display: "flex", gap: 6, marginBottom: 6 }}>
+        <button
+          onClick={() => setMoveKind("IN")}
+          className={`${styles.pillBtn} ${moveKind === "IN" ? styles.pillBtnActive : ""}`}
+        >
+          CASH IN
+        </button>
+        <button
+          onClick={() => setMoveKind("OUT")}
+          className={`${styles.pillBtn} ${moveKind === "OUT" ? styles.pillBtnActive : ""}`}
+        >
+          CASH OUT
+        </button>
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 2fr auto", gap: 6 }}>
+        <input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          value={moveAmount}
+          onChange={(e) => setMoveAmount(e.target.value)}
+          placeholder="0.00"
+          className={styles.input}
+        />
+        <input
+          value={moveReason}
+          onChange={(e) => setMoveReason(e.target.value)}
+          placeholder="Reason (e.g. ice, change fund)"
+          className={styles.input}
+        />
+        <button disabled={busy} onClick={addMove} className={styles.pillBtn}>
+          Save
+        </button>
+      </div>
+
+      {moves.length > 0 ? (
+        <div style={{ marginTop: 8, display: "grid", gap: 4 }}>
+          {moves.map((m, idx) => (
+            <div key={idx} className={styles.small}>
+              {m.kind === "IN" ? "+" : "−"}
+              {fmtMoney(m.amount)} • {m.reason}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <hr style={{ margin: "12px 0", borderColor: "rgba(255,255,255,0.12)" }} />
+
+      <div className={styles.small} style={{ marginBottom: 6 }}>Counted cash in drawer</div>
+      <div style={{ display: "flex", gap: 8 }}>
+        <input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          value={countedCash}
+          onChange={(e) => setCountedCash(e.target.value)}
+          placeholder="0.00"
+          className={styles.input}
+        />
+        <button disabled={busy || !countedCash} onClick={closeShift} className={styles.pillBtn} style={{ flex: "0 0 auto" }}>
+          {busy ? "CLOSING..." : "CLOSE SHIFT"}
+        </button>
+      </div>
+
+      {msg ? <div className={styles.error} style={{ marginTop: 10 }}>{msg}</div> : null}
+    </div>
+  );
+}
+
+export function ZReportView({ report }: { report: ZReport }) {
+  const rows: [string, string][] = [
+    ["Orders", String(report.order_count)],
+    ["Gross sales", fmtMoney(report.gross_sales)],
+    ["Cash sales", fmtMoney(report.cash_sales)],
+    ["GCash sales", fmtMoney(report.gcash_sales)],
+    ["Voids", `${report.void_count} • ${fmtMoney(report.void_total)}`],
+    ["Starting float", fmtMoney(report.opening_float)],
+    ["Cash in", fmtMoney(report.cash_in)],
+    ["Cash out", fmtMoney(report.cash_out)],
+    ["Expected cash", fmtMoney(report.expected_cash)],
+    ["Counted cash", fmtMoney(report.counted_cash)],
+  ];
+
+  return (
+    <div style={{ marginBottom: 14 }}>
+      <div style={{ fontWeight: 900, marginBottom: 6 }}>Z-Report</div>
+      <div className={styles.small} style={{ marginBottom: 8 }}>
+        {new Date(report.opened_at).toLocaleString()} → {new Date(report.closed_at).toLocaleString()}
+      </div>
+      <div style={{ display: "grid", gap: 4 }}>
+        {rows.map(([k, v]) => (
+          <div key={k} className={styles.rowLine}>
+            <span>{k}</span>
+            <strong>{v}</strong>
+          </div>
+        ))}
+        <div className={styles.rowLine} style={{ fontSize: 16 }}>
+          <strong>{report.over_short >= 0 ? "Over" : "Short"}</strong>
+          <strong style={{ color: report.over_short < 0 ? "#ff8a8a" : "#7CFFCF" }}>
+            {fmtMoney(Math.abs(report.over_short))}
+          </strong>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,88 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabase";
 import styles from "./cashier.module.css";
 import { confirmAndLogout } from "@/lib/logout";
+import {
+  describeDiscount,
+  describeProblem,
+  applyBranchOverrides,
+  discountAmount,
+  isStatutory,
+  orderTypeFee,
+  round2,
+  DELIVERY_PLATFORMS,
+  ORDER_TYPE_LABELS,
+  type BranchMenuOverride,
+  type Discount,
+  type DiscountHolder,
+  type OrderType,
+  type OrderTypeFee,
+  type PricingProblem,
+} from "@/lib/pricing";
+import { isValidGcashRef, normalizeGcashRef } from "@/lib/gcash";
+import type { Tender } from "@/lib/tenders";
+import {
+  isNetworkError,
+  newIdempotencyKey,
+  postOrder,
+  ServerUnavailableError,
+  type OrderRequestBody,
+} from "@/lib/orderApi";
+import type { ShiftRow } from "@/lib/zReport";
+import ShiftPanel from "./ShiftPanel";
+import DiscountPicker from "./DiscountPicker";
+import ModifierPicker from "./ModifierPicker";
+import { useBranchStock } from "./useBranchStock";
+import { sellableQty } from "@/lib/stock";
+import {
+  describeModifiers,
+  groupModifiersByItem,
+  modifierDelta,
+  modifierKey,
+  type LineModifier,
+  type ModifierGroup,
+} from "@/lib/modifiers";
+import {
+  enqueueOrder,
+  listQueuedOrders,
+  markQueuedOrderError,
+  removeQueuedOrder,
+  type QueuedOrder,
+} from "@/lib/offlineQueue";
 
 
 
 type MenuItem = {
   id: string;
   name: string;
-  category: string | null;
+  category_id: string | null;
+  image_url: string | null;
   price: number;
 };
 
+type MenuCategory = { id: string; name: string };
+
+// a parked cart (held_carts row), recalled later by any cashier at the branch
+type HeldCart = {
+  id: string;
+  label: string;
+  cart: CartLine[];
+  order_discount: Discount | null;
+  discount_holder: DiscountHolder | null;
+  created_at: string;
+};
+
 type CartLine = {
+  key: string; // menu item + chosen options; lines merge only when this matches
   id: string;
   name: string;
-  price: number;
+  price: number; // base price, without option deltas
+  modifiers: LineModifier[];
   qty: number;
+  discount?: Discount | null;
 };
 
 async function getMyProfile() {
@@ -36,13 +100,83 @@ async function getMyProfile() {
 }
 
 export default function CashierPage() {
+  const router = useRouter();
   const [menu, setMenu] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<Map<string, ModifierGroup[]>>(new Map());
+  const [pickerItem, setPickerItem] = useState<MenuItem | null>(null);
   const [errorMsg, setErrorMsg] = useState("");
   const [cart, setCart] = useState<CartLine[]>([]);
-  const [payment, setPayment] = useState<"CASH" | "GCASH">("CASH");
+  const [payment, setPayment] = useState<"CASH" | "GCASH" | "SPLIT">("CASH");
+  const [splitCash, setSplitCash] = useState(""); // CASH part of a SPLIT payment; GCash pays the rest
+  const [tendered, setTendered] = useState("");
+  const [gcashRef, setGcashRef] = useState("");
   const [saving, setSaving] = useState(false);
   const [branchId, setBranchId] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
+  const [priceProblems, setPriceProblems] = useState<PricingProblem[]>([]);
+  const [queued, setQueued] = useState<QueuedOrder[]>([]);
+  const [shift, setShift] = useState<ShiftRow | null>(null);
+  const [orderDiscount, setOrderDiscount] = useState<Discount | null>(null);
+  const [discountLineId, setDiscountLineId] = useState<string | null>(null); // line whose discount editor is open
+  const [holderIdNo, setHolderIdNo] = useState("");
+  const [holderName, setHolderName] = useState("");
+  const [held, setHeld] = useState<HeldCart[]>([]);
+  const [orderType, setOrderType] = useState<OrderType>("DINE_IN");
+  const [tableNo, setTableNo] = useState("");
+  const [platform, setPlatform] = useState(DELIVERY_PLATFORMS[0]);
+  const [platformRef, setPlatformRef] = useState("");
+  const [fees, setFees] = useState<Map<OrderType, OrderTypeFee>>(new Map());
+  const syncingRef = useRef(false);
+  // One key per cart: retries after a timeout/double tap reuse it, so the server
+  // hands back the order it already recorded instead of creating a second one.
+  const checkoutKeyRef = useRef<string | null>(null);
+  const placingRef = useRef(false);
+  const { stock, soldOut, toggleSoldOut } = useBranchStock(branchId, setErrorMsg);
+
+  // the branch's own prices apply and items it doesn't carry are left off the grid
+  async function loadMenu(forBranchId: string | null) {
+    const [
+      { data, error },
+      { data: overrides, error: overridesErr },
+      { data: cats, error: catsErr },
+      { data: groups, error: groupsErr },
+      { data: feeRows, error: feesErr },
+    ] = await Promise.all([
+      supabase
+        .from("menu_items")
+        .select("id,name,category_id,image_url,price")
+        .eq("is_active", true)
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true }),
+      forBranchId
+        ? supabase.from("branch_menu_items").select("menu_item_id,price,is_available").eq("branch_id", forBranchId)
+        : Promise.resolve({ data: [], error: null }),
+      supabase
+        .from("menu_categories")
+        .select("id,name")
+        .eq("is_active", true)
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true }),
+      supabase
+        .from("menu_item_modifier_groups")
+        .select("menu_item_id,sort_order,modifier_groups(id,name,min_select,max_select,is_active,modifier_options(id,name,price_delta,is_active))"),
+      supabase.from("order_type_fees").select("order_type,label,amount,per_item"),
+    ]);
+
+    if (error) setErrorMsg(error.message);
+    else if (overridesErr) setErrorMsg(overridesErr.message);
+    else {
+      const resolved = applyBranchOverrides((data ?? []) as MenuItem[], (overrides ?? []) as BranchMenuOverride[]);
+      setMenu(resolved.filter((m) => m.available));
+    }
+    if (catsErr) setErrorMsg(catsErr.message);
+    else setCategories((cats ?? []) as MenuCategory[]);
+    if (groupsErr) setErrorMsg(groupsErr.message);
+    else setModifierGroups(groupModifiersByItem(groups ?? []));
+    if (feesErr) setErrorMsg(feesErr.message);
+    else setFees(new Map(((feeRows ?? []) as OrderTypeFee[]).map((f) => [f.order_type, f])));
+  }
 
   // Load profile + menu
   useEffect(() => {
@@ -56,131 +190,323 @@ export default function CashierPage() {
         setBranchId(p.branchId); 
         setUserId(p.userId);
 
-        const { data, error } = await supabase
-          .from("menu_items")
-          .select("id,name,category,price")
-          .eq("is_active", true)
-          .order("category", { ascending: true })
-          .order("name", { ascending: true });
-
-        if (error) setErrorMsg(error.message);
-        else setMenu((data ?? []) as MenuItem[]);
+        const { data: openShift, error: shiftErr } = await supabase
+          .from("cashier_shifts")
+          .select("*")
+          .eq("cashier_id", p.userId)
+          .is("closed_at", null)
+          .maybeSingle();
+        if (shiftErr) setErrorMsg(shiftErr.message);
+        else setShift((openShift as ShiftRow | null) ?? null);
+
+        await loadMenu(p.branchId);
+        if (p.branchId) await loadHeld(p.branchId);
       } catch (e: any) {
         setErrorMsg(e?.message || "Login required");
       }
     })();
   }, []);
 
-  const meals = useMemo(
-    () => menu.filter((m) => (m.category ?? "").toLowerCase() === "meals"),
-    [menu]
-  );
-  const addons = useMemo(
-    () => menu.filter((m) => (m.category ?? "").toLowerCase() === "add-ons"),
-    [menu]
-  );
+  // Replay offline orders oldest-first. Stops at the first network failure so order is kept;
+  // server rejections stay in the queue with their error for the cashier to look at.
+  async function syncQueue() {
+    if (syncingRef.current) return (await listQueuedOrders()).length;
+    syncingRef.current = true;
+    try {
+      for (const entry of await listQueuedOrders()) {
+        try {
+          const { ok, json } = await postOrder({ ...entry.body, replay: true });
+          if (ok) await removeQueuedOrder(entry.key);
+          else await markQueuedOrderError(entry, json?.error || "Rejected by server");
+        } catch (e) {
+          if (isNetworkError(e)) {
+            // still unreachable (or down): the order stays queued for the next sync
+            if (e instanceof ServerUnavailableError) await markQueuedOrderError(entry, e.message);
+            break;
+          }
+          await markQueuedOrderError(entry, e instanceof Error ? e.message : String(e));
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+    }
+    const remaining = await listQueuedOrders();
+    setQueued(remaining);
+    return remaining.length;
+  }
+
+  const discardQueued = async (entry: QueuedOrder) => {
+    const ok = window.confirm("Discard this unsynced order? It will NOT be recorded.");
+    if (!ok) return;
+    await removeQueuedOrder(entry.key);
+    setQueued(await listQueuedOrders());
+  };
 
-  const total = useMemo(() => cart.reduce((sum, l) => sum + l.price * l.qty, 0), [cart]);
+  useEffect(() => {
+    syncQueue();
+    window.addEventListener("online", syncQueue);
+    const id = setInterval(syncQueue, 30 * 1000);
+    return () => {
+      window.removeEventListener("online", syncQueue);
+      clearInterval(id);
+    };
+  }, []);
 
+  // one card per active category, in the owner's order; items in hidden categories are not sold
+  const menuSections = useMemo(() => {
+    const sections = categories.map((c) => ({ id: c.id, name: c.name, items: menu.filter((m) => m.category_id === c.id) }));
+    const other = menu.filter((m) => !m.category_id);
+    if (other.length > 0) sections.push({ id: "other", name: "Other", items: other });
+    return sections.filter((s) => s.items.length > 0);
+  }, [menu, categories]);
+
+  // same math as the server's priceCart: line discounts first, then the order discount on the subtotal
+  const unitPrice = (l: CartLine) => round2(l.price + modifierDelta(l.modifiers));
+  const lineNet = (l: CartLine) => {
+    const gross = round2(unitPrice(l) * l.qty);
+    return round2(gross - discountAmount(l.discount, gross));
+  };
+  const subtotal = round2(cart.reduce((sum, l) => sum + lineNet(l), 0));
+  const orderDiscountAmount = discountAmount(orderDiscount, subtotal);
+  const fee = fees.get(orderType);
+  const feeAmount = orderTypeFee(fee, cart.reduce((n, l) => n + l.qty, 0));
+  const total = round2(subtotal - orderDiscountAmount + feeAmount);
+
+  const statutory = isStatutory(orderDiscount?.kind) || cart.some((l) => isStatutory(l.discount?.kind));
+  const discountStacked = statutory && !!orderDiscount && cart.some((l) => l.discount);
+  const holderMissing = statutory && (holderIdNo.trim().length < 4 || holderName.trim().length < 2);
+
+  // a discount can make the order free: then nothing is tendered, whatever the payment method
+  const freeOrder = total === 0;
+  const cashDue = freeOrder ? 0 : payment === "CASH" ? total : payment === "SPLIT" ? Number(splitCash || 0) : 0;
+  const gcashDue = total - cashDue;
+  const splitInvalid = !freeOrder && payment === "SPLIT" && (cashDue < 0.01 || gcashDue < 0.01);
+
+  const tenderedAmount = Number(tendered || 0);
+  const changeDue = tenderedAmount - cashDue;
+  const cashShort = cashDue > 0 && (!tendered || changeDue < -0.005);
+  const gcashRefMissing = gcashDue > 0.005 && !isValidGcashRef(normalizeGcashRef(gcashRef));
+
+  // items with options open the picker first; the rest go straight into the cart
   const addToCart = (item: MenuItem) => {
+    if ((modifierGroups.get(item.id) ?? []).length > 0) setPickerItem(item);
+    else addLine(item, []);
+  };
+
+  const addLine = (item: MenuItem, modifiers: LineModifier[]) => {
+    checkoutKeyRef.current = null;
+    const key = modifierKey(item.id, modifiers);
     setCart((prev) => {
-      const idx = prev.findIndex((l) => l.id === item.id);
+      const idx = prev.findIndex((l) => l.key === key);
       if (idx >= 0) {
         const next = [...prev];
         next[idx] = { ...next[idx], qty: next[idx].qty + 1 };
         return next;
       }
-      return [...prev, { id: item.id, name: item.name, price: item.price, qty: 1 }];
+      return [...prev, { key, id: item.id, name: item.name, price: item.price, modifiers, qty: 1 }];
     });
   };
 
-  const inc = (id: string) => setCart((prev) => prev.map((l) => (l.id === id ? { ...l, qty: l.qty + 1 } : l)));
+  const inc = (key: string) => {
+    checkoutKeyRef.current = null;
+    setCart((prev) => prev.map((l) => (l.key === key ? { ...l, qty: l.qty + 1 } : l)));
+  };
 
-  const dec = (id: string) =>
+  const dec = (key: string) => {
+    checkoutKeyRef.current = null;
     setCart((prev) =>
       prev
-        .map((l) => (l.id === id ? { ...l, qty: l.qty - 1 } : l))
+        .map((l) => (l.key === key ? { ...l, qty: l.qty - 1 } : l))
         .filter((l) => l.qty > 0)
     );
+  };
+
+  const setLineDiscount = (key: string, discount: Discount | null) => {
+    checkoutKeyRef.current = null;
+    setCart((prev) => prev.map((l) => (l.key === key ? { ...l, discount } : l)));
+  };
+
+  const changeOrderDiscount = (discount: Discount | null) => {
+    checkoutKeyRef.current = null;
+    setOrderDiscount(discount);
+  };
+
+  const clear = () => {
+    checkoutKeyRef.current = null;
+    setCart([]);
+    setOrderDiscount(null);
+    setDiscountLineId(null);
+    setHolderIdNo("");
+    setHolderName("");
+    setPriceProblems([]);
+    setTendered("");
+    setGcashRef("");
+    setSplitCash("");
+    setOrderType("DINE_IN");
+    setTableNo("");
+    setPlatformRef("");
+  };
+
+  async function loadHeld(forBranchId: string) {
+    const { data, error } = await supabase
+      .from("held_carts")
+      .select("id,label,cart,order_discount,discount_holder,created_at")
+      .eq("branch_id", forBranchId)
+      .order("created_at", { ascending: true });
+    if (error) setErrorMsg(error.message);
+    else setHeld((data ?? []) as HeldCart[]);
+  }
+
+  const holdCart = async () => {
+    if (!branchId || cart.length === 0) return;
+    const label = window.prompt("Label for this order (e.g. customer name or shirt color)")?.trim();
+    if (!label) return;
+
+    const { error } = await supabase.from("held_carts").insert({
+      branch_id: branchId,
+      label: label.slice(0, 40),
+      cart,
+      order_discount: orderDiscount,
+      discount_holder: holderIdNo || holderName ? { id_no: holderIdNo, name: holderName } : null,
+    });
+    if (error) return setErrorMsg(error.message);
+    clear();
+    await loadHeld(branchId);
+  };
+
+  // Deleting the row is the claim: if another register recalled it first, nothing comes back.
+  const recallHeld = async (h: HeldCart) => {
+    if (!branchId) return;
+    if (cart.length > 0) return alert("Hold or clear the current order first.");
+
+    const { data, error } = await supabase.from("held_carts").delete().eq("id", h.id).select("*").maybeSingle();
+    if (error) return setErrorMsg(error.message);
+    await loadHeld(branchId);
+    if (!data) return alert("That order was already recalled.");
+
+    const row = data as HeldCart;
+    clear();
+    setCart(row.cart ?? []);
+    setOrderDiscount(row.order_discount ?? null);
+    setHolderIdNo(row.discount_holder?.id_no ?? "");
+    setHolderName(row.discount_holder?.name ?? "");
+  };
+
+  const discardHeld = async (h: HeldCart) => {
+    if (!branchId || !window.confirm(`Discard held order "${h.label}"?`)) return;
+    const { error } = await supabase.from("held_carts").delete().eq("id", h.id);
+    if (error) setErrorMsg(error.message);
+    await loadHeld(branchId);
+  };
+
+  // Server rejected the cart: take its prices, drop what can't be sold, and show why.
+  const applyPriceProblems = (problems: PricingProblem[]) => {
+    const byId = new Map(problems.map((p) => [p.menu_item_id, p]));
+    checkoutKeyRef.current = null;
+    setCart((prev) =>
+      prev
+        .filter((l) => {
+          const p = byId.get(l.id);
+          return !p || p.reason === "PRICE_CHANGED";
+        })
+        .map((l) => {
+          const p = byId.get(l.id);
+          return p?.reason === "PRICE_CHANGED" ? { ...l, price: Number(p.server_price) } : l;
+        })
+    );
+    setPriceProblems(problems);
+  };
 
-  const clear = () => setCart([]);
+  const buildTenders = () => {
+    const tenders: Tender[] = [];
+    if (cashDue > 0) tenders.push({ method: "CASH", amount: Number(cashDue.toFixed(2)), reference: null });
+    if (gcashDue > 0.005) {
+      tenders.push({ method: "GCASH", amount: Number(gcashDue.toFixed(2)), reference: normalizeGcashRef(gcashRef) });
+    }
+    return tenders;
+  };
 
   const placeOrder = async () => {
-    if (cart.length === 0) return;
+    if (cart.length === 0 || placingRef.current) return;
     if (!branchId) {
       alert("No branch assigned to this cashier.");
       return;
     }
+    if (!shift) {
+      alert("Open a shift before taking orders.");
+      return;
+    }
+    if (discountStacked) {
+      alert("Senior/PWD discount cannot be combined with another discount.");
+      return;
+    }
+    if (holderMissing) {
+      alert("Enter the Senior/PWD ID number and name.");
+      return;
+    }
+    if (splitInvalid) {
+      alert("Split payment needs both a CASH and a GCASH amount.");
+      return;
+    }
+    if (cashShort) {
+      alert("Amount tendered is less than the cash due.");
+      return;
+    }
+    if (gcashRefMissing) {
+      alert("Enter the GCash reference number.");
+      return;
+    }
 
+    checkoutKeyRef.current ??= newIdempotencyKey();
+    const body: OrderRequestBody = {
+      idempotency_key: checkoutKeyRef.current,
+      shift_id: shift.id,
+      payments: buildTenders(),
+      lines: cart.map((l) => ({
+        menu_item_id: l.id,
+        qty: l.qty,
+        unit_price: l.price,
+        modifiers: l.modifiers,
+        discount: l.discount ?? null,
+      })),
+      discount: orderDiscount,
+      discount_holder: statutory ? { id_no: holderIdNo.trim(), name: holderName.trim() } : null,
+      order_type: orderType,
+      table_no: orderType === "DINE_IN" ? tableNo.trim() || null : null,
+      platform: orderType === "DELIVERY" ? platform : null,
+      platform_ref: orderType === "DELIVERY" ? platformRef.trim() || null : null,
+      amount_tendered: cashDue > 0 ? Number(tenderedAmount.toFixed(2)) : null,
+      client_created_at: new Date().toISOString(),
+    };
+
+    placingRef.current = true;
     setSaving(true);
     try {
-      const { data: authData } = await supabase.auth.getUser();
-      const user = authData.user;
-      if (!user) throw new Error("Login required");
-
-      const totalAmount = Number(total.toFixed(2));
-
-          // 🔎 BUILD PAYLOAD FIRST (tripwire)
-          const payload = {
-            branch_id: branchId,
-            created_by: user.id,   // always auth user
-            payment_type: payment,
-            status: "NEW",
-            total_amount: totalAmount,
-            // IMPORTANT: do NOT put order_no here yet
-          };
-
-        
-          // 🔎 INSERT
-          const { data: order, error: orderErr } = await supabase
-            .from("orders")
-            .insert(payload)
-            .select("id, order_no, business_date")
-            .single();
-
-        if (orderErr) throw new Error(orderErr.message);
-
-        // Insert order lines
-         const lines = cart.map((l) => {
-        const unitPrice = Number(l.price);
-        const qty = Number(l.qty);
-        const lineTotal = unitPrice * qty;
-
-        return {
-          order_id: order.id,
-          menu_item_id: l.id,          // ✅ keep UUID string
-          qty,                         // int
-          unit_price: unitPrice,       // numeric
-          line_total: lineTotal,       // numeric
-         };
-         });
-
-  const { error: linesErr } = await supabase.from("order_lines").insert(lines);
-  if (linesErr) throw new Error(linesErr.message);
-
-  // ⭐ STEP #3 — mark order as PAID (this triggers inventory deduction)
-  const { error: payErr } = await supabase
-  .from("orders")
-  .update({ status: "PAID" })
-  .eq("id", order.id);
-
-  if (payErr) {
-  // rollback order_lines first
-  await supabase.from("order_lines").delete().eq("order_id", order.id);
-
-  // rollback order header
-  await supabase.from("orders").delete().eq("id", order.id);
-
-  throw new Error(payErr.message);
-  }
-
-  alert(`Order #${order.order_no} saved ✅`);
-  clear();
-
+      // header + lines + PAID are written in one transaction server-side
+      const { ok, status, json } = await postOrder(body);
+      if (status === 409 && Array.isArray(json?.problems)) {
+        applyPriceProblems(json.problems);
+        await loadMenu(branchId);
+        alert("Menu has changed. Please review the order summary before placing the order again.");
+        return;
+      }
+      if (!ok) throw new Error(json?.error || "Order failed");
 
+      if (json.order.duplicate) alert(`Order #${json.order.order_no} was already saved ✅`);
+      clear();
+      router.push(`/cashier/receipt/${json.order.id}`);
     } catch (e: any) {
+      if (isNetworkError(e)) {
+        // keep selling: the order syncs once the connection is back
+        await enqueueOrder(body);
+        setQueued(await listQueuedOrders());
+        alert("Offline — order queued and will sync automatically ✅");
+        clear();
+        return;
+      }
       alert("Failed to save order: " + (e?.message || e.toString()));
     } finally {
+      placingRef.current = false;
       setSaving(false);
     }
   };
@@ -194,11 +520,13 @@ export default function CashierPage() {
       </div>
 
       <div className={styles.pill}>
-        Branch: {branchId ? "Assigned" : "Not assigned"}
+        Branch: {branchId ? "Assigned" : "Not assigned"} • Pending sync: {queued.length}
 
          <button
           className={styles.pillBtn}
-          onClick={() => confirmAndLogout("Log out cashier?")}
+          onClick={() =>
+            confirmAndLogout(shift ? "Your shift is still open. Log out anyway?" : "Log out cashier?")
+          }
           style={{ fontWeight: 900 }}
           >
           Logout
@@ -212,7 +540,7 @@ export default function CashierPage() {
 
         <div className={styles.sectionBody}>
           <div className={styles.small} style={{ marginBottom: 10 }}>
-            Tap meals/add-ons • Payment: Cash or GCash
+            Tap items to add • Payment: Cash or GCash
           </div>
 
           {errorMsg ? (
@@ -229,29 +557,37 @@ export default function CashierPage() {
           <div className={styles.grid2}>
             {/* Left: Menu */}
             <div className={styles.panelGrid}>
-              <div className={styles.card}>
-                <div style={{ fontWeight: 900, marginBottom: 10 }}>Meals</div>
-                <div className={styles.menuGrid}>
-                  {meals.map((m) => (
-                    <button key={m.id} onClick={() => addToCart(m)} className={styles.itemBtn}>
-                      {m.name}
-                      <div className={styles.price}>₱{Number(m.price).toFixed(2)}</div>
-                    </button>
-                  ))}
+              {menuSections.map((section) => (
+                <div key={section.id} className={styles.card}>
+                  <div style={{ fontWeight: 900, marginBottom: 10 }}>{section.name}</div>
+                  <div className={styles.menuGrid}>
+                    {section.items.map((m) => {
+                      const left = sellableQty(m.id, stock);
+                      const marked = soldOut.has(m.id);
+                      const out = marked || (left !== null && left <= 0);
+                      return (
+                        <div key={m.id} className={styles.itemCell}>
+                          <button onClick={() => addToCart(m)} className={styles.itemBtn} disabled={out}>
+                            {m.image_url ? <img className={styles.itemImg} src={m.image_url} alt="" /> : null}
+                            {m.name}
+                            <div className={styles.price}>₱{Number(m.price).toFixed(2)}</div>
+                            {out ? (
+                              <div className={styles.small}>SOLD OUT</div>
+                            ) : left !== null ? (
+                              <div className={styles.small}>{left} left</div>
+                            ) : null}
+                          </button>
+                          <button className={styles.soldOutBtn} onClick={() => toggleSoldOut(m.id)}>
+                            {marked ? "Back in stock" : "Mark sold out"}
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
                 </div>
-              </div>
+              ))}
 
-              <div className={styles.card}>
-                <div style={{ fontWeight: 900, marginBottom: 10 }}>Add-ons</div>
-                <div className={styles.menuGrid}>
-                  {addons.map((m) => (
-                    <button key={m.id} onClick={() => addToCart(m)} className={styles.itemBtn}>
-                      {m.name}
-                      <div className={styles.price}>₱{Number(m.price).toFixed(2)}</div>
-                    </button>
-                  ))}
-                </div>
-              </div>
+              <ShiftPanel shift={shift} onShiftChange={setShift} onSync={syncQueue} />
             </div>
 
             {/* Right: Cart */}
@@ -267,28 +603,43 @@ export default function CashierPage() {
                 <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
                   {cart.map((l) => (
                     <div
-                      key={l.id}
+                      key={l.key}
                       className={styles.rowBtn}
                       style={{ cursor: "default" }}
                     >
                       <div className={styles.rowLine}>
                         <div>
                           <div style={{ fontWeight: 900 }}>{l.name}</div>
+                          {l.modifiers.length > 0 ? (
+                            <div className={styles.small}>{describeModifiers(l.modifiers)}</div>
+                          ) : null}
                           <div className={styles.small}>
-                            ₱{Number(l.price).toFixed(2)} × {l.qty} = ₱{(l.price * l.qty).toFixed(2)}
+                            ₱{unitPrice(l).toFixed(2)} × {l.qty} = ₱{(unitPrice(l) * l.qty).toFixed(2)}
                           </div>
+                          {l.discount ? (
+                            <div className={styles.small}>
+                              {describeDiscount(l.discount)} → ₱{lineNet(l).toFixed(2)}
+                            </div>
+                          ) : null}
                         </div>
 
                         <div style={{ display: "flex", gap: 6 }}>
                           <button
-                            onClick={() => dec(l.id)}
+                            onClick={() => setDiscountLineId(discountLineId === l.key ? null : l.key)}
+                            className={`${styles.pillBtn} ${l.discount ? styles.pillBtnActive : ""}`}
+                            style={{ padding: "6px 10px" }}
+                          >
+                            %
+                          </button>
+                          <button
+                            onClick={() => dec(l.key)}
                             className={styles.pillBtn}
                             style={{ padding: "6px 10px" }}
                           >
                             −
                           </button>
                           <button
-                            onClick={() => inc(l.id)}
+                            onClick={() => inc(l.key)}
                             className={styles.pillBtn}
                             style={{ padding: "6px 10px" }}
                           >
@@ -296,14 +647,141 @@ export default function CashierPage() {
                           </button>
                         </div>
                       </div>
+                      {discountLineId === l.key ? (
+                        <div style={{ marginTop: 8 }}>
+                          <DiscountPicker value={l.discount ?? null} onChange={(d) => setLineDiscount(l.key, d)} />
+                        </div>
+                      ) : null}
                     </div>
                   ))}
                 </div>
               )}
 
+              {queued.some((q) => q.lastError) ? (
+                <div className={styles.error} style={{ marginTop: 10 }}>
+                  <div style={{ marginBottom: 4 }}>Offline orders that failed to sync:</div>
+                  {queued
+                    .filter((q) => q.lastError)
+                    .map((q) => (
+                      <div key={q.key} className={styles.rowLine} style={{ marginTop: 6 }}>
+                        <div className={styles.small} style={{ color: "#fff" }}>
+                          {new Date(q.queuedAt).toLocaleString()} — {q.lastError}
+                        </div>
+                        <button
+                          onClick={() => discardQueued(q)}
+                          className={styles.pillBtn}
+                          style={{ padding: "6px 10px" }}
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    ))}
+                </div>
+              ) : null}
+
+              {priceProblems.length > 0 ? (
+                <div className={styles.error} style={{ marginTop: 10 }}>
+                  <div style={{ marginBottom: 4 }}>Updated to current menu:</div>
+                  {priceProblems.map((p) => (
+                    <div key={p.menu_item_id} className={styles.small} style={{ color: "#fff" }}>
+                      • {describeProblem(p)}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
               <hr style={{ margin: "12px 0", borderColor: "rgba(255,255,255,0.12)" }} />
 
-              <div style={{ display: "flex", justifyContent: "space-between", fontSize: 18 }}>
+              <div style={{ display: "flex", gap: 10, marginBottom: 8 }}>
+                {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map((t) => (
+                  <button
+                    key={t}
+                    onClick={() => {
+                      checkoutKeyRef.current = null;
+                      setOrderType(t);
+                    }}
+                    className={`${styles.pillBtn} ${orderType === t ? styles.pillBtnActive : ""}`}
+                  >
+                    {ORDER_TYPE_LABELS[t]}
+                  </button>
+                ))}
+              </div>
+              {orderType === "DINE_IN" ? (
+                <input
+                  value={tableNo}
+                  onChange={(e) => setTableNo(e.target.value)}
+                  placeholder="Table no. (optional)"
+                  maxLength={10}
+                  className={styles.input}
+                  style={{ marginBottom: 10 }}
+                />
+              ) : null}
+              {orderType === "DELIVERY" ? (
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, marginBottom: 10 }}>
+                  <select value={platform} onChange={(e) => setPlatform(e.target.value)} className={styles.input}>
+                    {DELIVERY_PLATFORMS.map((p) => (
+                      <option key={p} value={p}>
+                        {p}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={platformRef}
+                    onChange={(e) => setPlatformRef(e.target.value)}
+                    placeholder="Platform order ref"
+                    maxLength={60}
+                    className={styles.input}
+                  />
+                </div>
+              ) : null}
+
+              <div className={styles.small} style={{ marginBottom: 6 }}>Order discount</div>
+              <DiscountPicker value={orderDiscount} onChange={changeOrderDiscount} />
+
+              {statutory ? (
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, marginTop: 8 }}>
+                  <input
+                    value={holderIdNo}
+                    onChange={(e) => setHolderIdNo(e.target.value)}
+                    placeholder="SC/PWD ID no."
+                    className={styles.input}
+                  />
+                  <input
+                    value={holderName}
+                    onChange={(e) => setHolderName(e.target.value)}
+                    placeholder="Name on ID"
+                    className={styles.input}
+                  />
+                </div>
+              ) : null}
+              {discountStacked ? (
+                <div className={styles.error} style={{ marginTop: 8 }}>
+                  Senior/PWD discount cannot be combined with another discount.
+                </div>
+              ) : null}
+
+              {(orderDiscount && orderDiscountAmount > 0) || feeAmount > 0 ? (
+                <div style={{ marginTop: 10, display: "grid", gap: 4 }}>
+                  <div className={styles.rowLine}>
+                    <span className={styles.small}>Subtotal</span>
+                    <span>₱{subtotal.toFixed(2)}</span>
+                  </div>
+                  {orderDiscount && orderDiscountAmount > 0 ? (
+                    <div className={styles.rowLine}>
+                      <span className={styles.small}>{describeDiscount(orderDiscount)}</span>
+                      <span>−₱{orderDiscountAmount.toFixed(2)}</span>
+                    </div>
+                  ) : null}
+                  {feeAmount > 0 ? (
+                    <div className={styles.rowLine}>
+                      <span className={styles.small}>{fee?.label ?? "Fee"}</span>
+                      <span>₱{feeAmount.toFixed(2)}</span>
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+
+              <div style={{ display: "flex", justifyContent: "space-between", fontSize: 18, marginTop: 10 }}>
                 <strong>Total</strong>
                 <strong>₱{total.toFixed(2)}</strong>
               </div>
@@ -321,14 +799,105 @@ export default function CashierPage() {
                 >
                   GCASH
                 </button>
+                <button
+                  onClick={() => setPayment("SPLIT")}
+                  className={`${styles.pillBtn} ${payment === "SPLIT" ? styles.pillBtnActive : ""}`}
+                >
+                  SPLIT
+                </button>
               </div>
 
+              {payment === "SPLIT" ? (
+                <div style={{ marginTop: 12 }}>
+                  <div className={styles.small} style={{ marginBottom: 6 }}>Cash part (GCash pays the rest)</div>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.01"
+                    value={splitCash}
+                    onChange={(e) => setSplitCash(e.target.value)}
+                    placeholder="0.00"
+                    className={styles.input}
+                  />
+                  <div className={styles.small} style={{ marginTop: 6 }}>
+                    Cash ₱{cashDue.toFixed(2)} + GCash ₱{Math.max(gcashDue, 0).toFixed(2)}
+                    {splitInvalid && cart.length > 0 ? " — both parts must be more than ₱0" : ""}
+                  </div>
+                </div>
+              ) : null}
+
+              {cashDue > 0 ? (
+                <div style={{ marginTop: 12 }}>
+                  <div className={styles.small} style={{ marginBottom: 6 }}>Amount tendered</div>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.01"
+                    value={tendered}
+                    onChange={(e) => setTendered(e.target.value)}
+                    placeholder="0.00"
+                    className={styles.input}
+                  />
+
+                  <div style={{ marginTop: 8, display: "flex", gap: 6 }}>
+                    {[100, 500, 1000].map((d) => (
+                      <button
+                        key={d}
+                        onClick={() => setTendered(String(tenderedAmount + d))}
+                        className={styles.pillBtn}
+                        style={{ padding: "6px 8px" }}
+                      >
+                        +₱{d}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setTendered(cashDue.toFixed(2))}
+                      className={styles.pillBtn}
+                      style={{ padding: "6px 8px" }}
+                    >
+                      Exact
+                    </button>
+                  </div>
+
+                  <div style={{ marginTop: 10, display: "flex", justifyContent: "space-between", fontSize: 16 }}>
+                    <strong>Change</strong>
+                    <strong style={{ color: changeDue < -0.005 ? "#ff8a8a" : "#7CFFCF" }}>
+                      {tendered ? (changeDue < -0.005 ? `Short ₱${(-changeDue).toFixed(2)}` : `₱${changeDue.toFixed(2)}`) : "—"}
+                    </strong>
+                  </div>
+                </div>
+              ) : null}
+
+              {payment !== "CASH" ? (
+                <div style={{ marginTop: 12 }}>
+                  <div className={styles.small} style={{ marginBottom: 6 }}>GCash reference no.</div>
+                  <input
+                    inputMode="numeric"
+                    value={gcashRef}
+                    onChange={(e) => setGcashRef(e.target.value)}
+                    placeholder="e.g. 1234 567 891234"
+                    className={styles.input}
+                  />
+                </div>
+              ) : null}
+
               <button
-                disabled={cart.length === 0 || saving}
+                disabled={
+                  !shift ||
+                  cart.length === 0 ||
+                  saving ||
+                  discountStacked ||
+                  holderMissing ||
+                  splitInvalid ||
+                  cashShort ||
+                  gcashRefMissing
+                }
                 onClick={placeOrder}
                 className={styles.cta}
               >
-                {saving ? "SAVING..." : "PLACE ORDER"}
+                {saving ? "SAVING..." : shift ? "PLACE ORDER" : "OPEN A SHIFT FIRST"}
               </button>
 
               <button
@@ -338,11 +907,53 @@ export default function CashierPage() {
               >
                 Clear
               </button>
+
+              <button disabled={cart.length === 0 || !branchId || saving} onClick={holdCart} className={styles.clearBtn}>
+                Hold
+              </button>
+
+              {held.length > 0 ? (
+                <div style={{ display: "grid", gap: 8, marginTop: 12 }}>
+                  <div style={{ fontWeight: 900 }}>Held orders ({held.length})</div>
+                  {held.map((h) => (
+                    <div key={h.id} className={styles.rowLine}>
+                      <div>
+                        <div style={{ fontWeight: 800 }}>{h.label}</div>
+                        <div className={styles.small}>
+                          {h.cart.reduce((n, l) => n + l.qty, 0)} item(s) •{" "}
+                          {new Date(h.created_at).toLocaleTimeString()}
+                        </div>
+                      </div>
+                      <div style={{ display: "flex", gap: 6 }}>
+                        <button className={styles.pillBtn} onClick={() => recallHeld(h)}>
+                          Recall
+                        </button>
+                        <button className={styles.pillBtn} onClick={() => discardHeld(h)}>
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
             </div>
           </div>
         </div>
       </div>
     </div>
+
+    {pickerItem ? (
+      <ModifierPicker
+        itemName={pickerItem.name}
+        basePrice={Number(pickerItem.price)}
+        groups={modifierGroups.get(pickerItem.id) ?? []}
+        onConfirm={(mods) => {
+          addLine(pickerItem, mods);
+          setPickerItem(null);
+        }}
+        onCancel={() => setPickerItem(null)}
+      />
+    ) : null}
   </div>
 );
 
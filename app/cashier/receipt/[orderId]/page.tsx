@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import styles from "./receipt.module.css";
+import { fmtInvoiceNo, fmtReceiptTime, loadReceipt, type Receipt } from "@/lib/receipt";
+import { encodeReceipt } from "@/lib/escpos";
+import { TENDER_LABELS } from "@/lib/tenders";
+
+function fmtMoney(n: number) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+export default function ReceiptPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [errorMsg, setErrorMsg] = useState("");
+
+  useEffect(() => {
+    loadReceipt(orderId)
+      .then(setReceipt)
+      .catch((e) => setErrorMsg(e?.message || "Failed to load receipt"));
+  }, [orderId]);
+
+  // Raw ESC/POS bytes for printers driven by a print bridge / RawBT-style app.
+  const downloadEscPos = () => {
+    if (!receipt) return;
+    const bytes = encodeReceipt(receipt);
+    const blob = new Blob([bytes], { type: "application/octet-stream" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `receipt_${receipt.businessDate ?? "order"}_${receipt.orderNo ?? receipt.orderId}.bin`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.actions}>
+        <button className={styles.btn} onClick={() => window.print()} disabled={!receipt}>
+          Print
+        </button>
+        <button className={styles.btn} onClick={downloadEscPos} disabled={!receipt}>
+          ESC/POS
+        </button>
+        <button className={styles.btn} onClick={() => (window.location.href = "/cashier")}>
+          New Order
+        </button>
+      </div>
+
+      {errorMsg ? (
+        <div className={styles.error}>Error: {errorMsg}</div>
+      ) : !receipt ? (
+        <div className={styles.paper}>Loading receipt…</div>
+      ) : (
+        <div className={styles.paper}>
+          <div className={styles.center}>
+            <div className={styles.title}>SUPERBECKS</div>
+            <div style={{ fontWeight: 700 }}>{receipt.branchName}</div>
+            <div>{fmtReceiptTime(receipt.createdAt)}</div>
+          </div>
+
+          <hr className={styles.rule} />
+          <div className={styles.row}>
+            <span>Order #{receipt.orderNo ?? "—"}</span>
+            <span>{receipt.businessDate ?? ""}</span>
+          </div>
+          {receipt.invoiceNo !== null ? <div>SI No. {fmtInvoiceNo(receipt.invoiceNo)}</div> : null}
+          {receipt.orderType ? <div>{receipt.orderType}</div> : null}
+          {receipt.status === "VOIDED" ? <div className={styles.center}>*** VOIDED ***</div> : null}
+          <hr className={styles.rule} />
+
+          {receipt.lines.map((l, idx) => (
+            <div key={idx}>
+              <div className={styles.row}>
+                <span>{l.name}</span>
+                <span>{fmtMoney(l.lineTotal)}</span>
+              </div>
+              {l.options ? <div className={styles.sub}>{l.options}</div> : null}
+              <div className={styles.sub}>
+                {l.qty} × {fmtMoney(l.unitPrice)}
+              </div>
+              {l.discountAmount > 0 ? (
+                <div className={styles.sub}>
+                  {l.discountLabel} −{fmtMoney(l.discountAmount)}
+                </div>
+              ) : null}
+            </div>
+          ))}
+
+          <hr className={styles.rule} />
+          {receipt.discountAmount > 0 || receipt.feeAmount > 0 ? (
+            <div className={styles.row}>
+              <span>Subtotal</span>
+              <span>{fmtMoney(receipt.subtotal)}</span>
+            </div>
+          ) : null}
+          {receipt.discountAmount > 0 ? (
+            <div className={styles.row}>
+              <span>{receipt.discountLabel}</span>
+              <span>−{fmtMoney(receipt.discountAmount)}</span>
+            </div>
+          ) : null}
+          {receipt.feeAmount > 0 ? (
+            <div className={styles.row}>
+              <span>{receipt.feeLabel ?? "Fee"}</span>
+              <span>{fmtMoney(receipt.feeAmount)}</span>
+            </div>
+          ) : null}
+          <div className={`${styles.row} ${styles.total}`}>
+            <span>TOTAL</span>
+            <span>{fmtMoney(receipt.total)}</span>
+          </div>
+          <div className={styles.row}>
+            <span>Payment</span>
+            <span>{receipt.paymentType}</span>
+          </div>
+          {receipt.payments.map((t, idx) => (
+            <div key={idx}>
+              <div className={styles.row}>
+                <span>{TENDER_LABELS[t.method] ?? t.method}</span>
+                <span>{fmtMoney(t.amount)}</span>
+              </div>
+              {t.reference ? <div className={styles.sub}>Ref {t.reference}</div> : null}
+            </div>
+          ))}
+          {receipt.discountHolder ? <div className={styles.sub}>SC/PWD: {receipt.discountHolder}</div> : null}
+          {receipt.amountTendered !== null ? (
+            <>
+              <div className={styles.row}>
+                <span>Cash tendered</span>
+                <span>{fmtMoney(receipt.amountTendered)}</span>
+              </div>
+              <div className={styles.row}>
+                <span>Change</span>
+                <span>{fmtMoney(receipt.changeDue ?? 0)}</span>
+              </div>
+            </>
+          ) : null}
+
+          {receipt.vat ? (
+            <>
+              <hr className={styles.rule} />
+              <div className={styles.row}>
+                <span>VATable Sales</span>
+                <span>{fmtMoney(receipt.vat.vatable_sales)}</span>
+              </div>
+              <div className={styles.row}>
+                <span>VAT (12%)</span>
+                <span>{fmtMoney(receipt.vat.vat_amount)}</span>
+              </div>
+              <div className={styles.row}>
+                <span>VAT-Exempt Sales</span>
+                <span>{fmtMoney(receipt.vat.vat_exempt_sales)}</span>
+              </div>
+              <div className={styles.row}>
+                <span>Zero-Rated Sales</span>
+                <span>{fmtMoney(receipt.vat.zero_rated_sales)}</span>
+              </div>
+            </>
+          ) : null}
+
+          <div className={styles.center} style={{ marginTop: 12 }}>
+            Thank you!
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
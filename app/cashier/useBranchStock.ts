@@ -0,0 +1,104 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { groupBy, type BranchStock, type ComponentQty, type RecipeQty } from "@/lib/stock";
+
+const emptyStock: BranchStock = { onhand: new Map(), ingredientOnhand: new Map(), recipes: new Map(), components: new Map() };
+
+type OnhandRow = { menu_item_id: string; on_hand: number };
+type IngredientOnhandRow = { ingredient_id: string; on_hand: number };
+type SoldOutRow = { branch_id: string; menu_item_id: string };
+
+// Branch stock + manual sold-out flags, kept live through Supabase realtime.
+export function useBranchStock(branchId: string | null, onError: (msg: string) => void) {
+  const [stock, setStock] = useState<BranchStock>(emptyStock);
+  const [soldOut, setSoldOut] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async (forBranchId: string) => {
+    const [oh, ioh, rec, comp, so] = await Promise.all([
+      supabase.from("inventory_onhand").select("menu_item_id,on_hand").eq("branch_id", forBranchId),
+      supabase.from("ingredient_onhand").select("ingredient_id,on_hand").eq("branch_id", forBranchId),
+      supabase.from("menu_item_recipes").select("menu_item_id,ingredient_id,qty"),
+      supabase.from("menu_item_components").select("bundle_item_id,component_item_id,qty"),
+      supabase.from("branch_sold_out").select("menu_item_id").eq("branch_id", forBranchId),
+    ]);
+    const failed = [oh, ioh, rec, comp, so].find((r) => r.error);
+    if (failed?.error) throw new Error(failed.error.message);
+
+    setStock({
+      onhand: new Map(((oh.data ?? []) as OnhandRow[]).map((r) => [r.menu_item_id, Number(r.on_hand)])),
+      ingredientOnhand: new Map(((ioh.data ?? []) as IngredientOnhandRow[]).map((r) => [r.ingredient_id, Number(r.on_hand)])),
+      recipes: groupBy((rec.data ?? []) as (RecipeQty & { menu_item_id: string })[], (r) => r.menu_item_id),
+      components: groupBy((comp.data ?? []) as (ComponentQty & { bundle_item_id: string })[], (r) => r.bundle_item_id),
+    });
+    setSoldOut(new Set(((so.data ?? []) as { menu_item_id: string }[]).map((r) => r.menu_item_id)));
+  }, []);
+
+  useEffect(() => {
+    if (!branchId) return;
+    const reload = () => load(branchId).catch((e) => onError(e instanceof Error ? e.message : "Failed to load stock"));
+
+    const channel = supabase
+      .channel(`branch-stock-${branchId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "inventory_onhand", filter: `branch_id=eq.${branchId}` },
+        (payload) => {
+          const row = payload.new as Partial<OnhandRow>;
+          if (!row.menu_item_id) return;
+          setStock((s) => ({ ...s, onhand: new Map(s.onhand).set(row.menu_item_id!, Number(row.on_hand ?? 0)) }));
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "ingredient_onhand", filter: `branch_id=eq.${branchId}` },
+        (payload) => {
+          const row = payload.new as Partial<IngredientOnhandRow>;
+          if (!row.ingredient_id) return;
+          setStock((s) => ({
+            ...s,
+            ingredientOnhand: new Map(s.ingredientOnhand).set(row.ingredient_id!, Number(row.on_hand ?? 0)),
+          }));
+        }
+      )
+      // realtime can't filter deletes, so the branch is checked here
+      .on("postgres_changes", { event: "*", schema: "public", table: "branch_sold_out" }, (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<SoldOutRow>;
+        if (row.branch_id !== branchId || !row.menu_item_id) return;
+        setSoldOut((cur) => {
+          const next = new Set(cur);
+          if (payload.eventType === "DELETE") next.delete(row.menu_item_id!);
+          else next.add(row.menu_item_id!);
+          return next;
+        });
+      })
+      .subscribe((status) => {
+        // (re)connected: catch up on anything missed while we weren't listening
+        if (status === "SUBSCRIBED") reload();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [branchId, load]);
+
+  async function toggleSoldOut(menuItemId: string) {
+    if (!branchId) return;
+    const marking = !soldOut.has(menuItemId);
+    const { error } = marking
+      ? await supabase.from("branch_sold_out").insert({ branch_id: branchId, menu_item_id: menuItemId })
+      : await supabase.from("branch_sold_out").delete().eq("branch_id", branchId).eq("menu_item_id", menuItemId);
+    // 23505: another terminal (or a double tap) already marked it, which is what we wanted
+    if (error && error.code !== "23505") return onError(error.message);
+    setSoldOut((cur) => {
+      const next = new Set(cur);
+      if (marking) next.add(menuItemId);
+      else next.delete(menuItemId);
+      return next;
+    });
+  }
+
+  return { stock, soldOut, toggleSoldOut };
+}
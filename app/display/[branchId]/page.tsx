@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+
+type Board = { branch: string; preparing: number[]; ready: number[] };
+
+// public screen: no login, so it polls the display API instead of using realtime
+const POLL_MS = 4000;
+
+export default function OrderDisplayPage() {
+  const { branchId } = useParams<{ branchId: string }>();
+  const [board, setBoard] = useState<Board | null>(null);
+  const [errorMsg, setErrorMsg] = useState("");
+  const [justCalled, setJustCalled] = useState<Set<number>>(new Set());
+  const seenReadyRef = useRef<Set<number> | null>(null);
+
+  useEffect(() => {
+    let stopped = false;
+
+    async function poll() {
+      try {
+        const res = await fetch(`/api/display/${branchId}`, { cache: "no-store" });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || "Display unavailable");
+        if (stopped) return;
+
+        const next = json as Board;
+        // numbers that turned ready since the last poll get highlighted
+        const seen = seenReadyRef.current;
+        setJustCalled(new Set(seen ? next.ready.filter((n) => !seen.has(n)) : []));
+        seenReadyRef.current = new Set(next.ready);
+        setBoard(next);
+        setErrorMsg("");
+      } catch (e) {
+        if (!stopped) setErrorMsg(e instanceof Error ? e.message : "Display unavailable");
+      }
+    }
+
+    poll();
+    const t = setInterval(poll, POLL_MS);
+    return () => {
+      stopped = true;
+      clearInterval(t);
+    };
+  }, [branchId]);
+
+  const numberStyle: React.CSSProperties = { fontSize: 56, fontWeight: 900, lineHeight: 1.1 };
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        padding: 24,
+        background: "#07070b",
+        color: "#fff",
+        fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif",
+      }}
+    >
+      <div style={{ fontSize: 28, fontWeight: 900, marginBottom: 16 }}>{board?.branch ?? "Superbecks"}</div>
+      {errorMsg && <div style={{ opacity: 0.6, marginBottom: 12 }}>{errorMsg}</div>}
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 24 }}>
+        <div style={{ border: "1px solid #333", borderRadius: 18, padding: 20 }}>
+          <div style={{ fontSize: 28, fontWeight: 800, opacity: 0.8, marginBottom: 12 }}>Preparing</div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 24 }}>
+            {(board?.preparing ?? []).map((n) => (
+              <div key={n} style={{ ...numberStyle, opacity: 0.7 }}>
+                {n}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ border: "2px solid #3ddc84", borderRadius: 18, padding: 20 }}>
+          <div style={{ fontSize: 28, fontWeight: 800, color: "#3ddc84", marginBottom: 12 }}>Ready — please claim</div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 24 }}>
+            {(board?.ready ?? []).map((n) => (
+              <div
+                key={n}
+                style={{
+                  ...numberStyle,
+                  color: "#3ddc84",
+                  padding: "0 12px",
+                  borderRadius: 12,
+                  background: justCalled.has(n) ? "rgba(61, 220, 132, 0.2)" : "transparent",
+                }}
+              >
+                {n}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
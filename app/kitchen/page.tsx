@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { getMyProfile } from "@/lib/getMyProfile";
+import { confirmAndLogout } from "@/lib/logout";
+import { postKitchenBump } from "@/lib/orderApi";
+import { describeModifiers, type LineModifier } from "@/lib/modifiers";
+import { fmtDuration, nextKitchenStatus, type KitchenStatus } from "@/lib/kitchen";
+
+type Branch = { id: string; name: string };
+
+type Ticket = {
+  id: string;
+  order_no: number | null;
+  kitchen_status: KitchenStatus;
+  kitchen_queued_at: string;
+  kitchen_started_at: string | null;
+  kitchen_ready_at: string | null;
+  order_lines: { qty: number; modifiers: LineModifier[] | null; menu_items: { name: string } | null }[];
+};
+
+const COLUMNS: { status: KitchenStatus; title: string; bump: string }[] = [
+  { status: "QUEUED", title: "New", bump: "Start" },
+  { status: "PREPARING", title: "Preparing", bump: "Ready" },
+  { status: "READY", title: "Ready", bump: "Served" },
+];
+
+// ticket turns amber, then red, the longer it waits
+function ageColor(seconds: number) {
+  if (seconds >= 15 * 60) return "#ff6b6b";
+  if (seconds >= 8 * 60) return "#ffb020";
+  return "#333";
+}
+
+export default function KitchenPage() {
+  const [errorMsg, setErrorMsg] = useState("");
+  const [isOwner, setIsOwner] = useState(false);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState<string | null>(null);
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const prof = await getMyProfile();
+        if (prof.role === "owner") {
+          const { data, error } = await supabase.from("branches").select("id,name").order("name");
+          if (error) throw new Error(error.message);
+          setIsOwner(true);
+          setBranches((data ?? []) as Branch[]);
+          setBranchId(data?.[0]?.id ?? null);
+          return;
+        }
+        if (!prof.branchId) throw new Error("No branch assigned to this account.");
+        setBranchId(prof.branchId);
+      } catch (e) {
+        setErrorMsg(e instanceof Error ? e.message : "Login required");
+      }
+    })();
+  }, []);
+
+  // keeps the ticket timers moving
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(t);
+  }, []);
+
+  async function loadTickets(forBranchId: string) {
+    const { data, error } = await supabase
+      .from("orders")
+      .select(
+        "id,order_no,kitchen_status,kitchen_queued_at,kitchen_started_at,kitchen_ready_at,order_lines(qty,modifiers,menu_items(name))"
+      )
+      .eq("branch_id", forBranchId)
+      .eq("status", "PAID")
+      .in("kitchen_status", ["QUEUED", "PREPARING", "READY"])
+      .order("kitchen_queued_at", { ascending: true });
+    if (error) return setErrorMsg(error.message);
+    setTickets((data ?? []) as unknown as Ticket[]);
+  }
+
+  // paid orders and bumps from other screens arrive through realtime
+  useEffect(() => {
+    if (!branchId) return;
+    const channel = supabase
+      .channel(`kitchen-${branchId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "orders", filter: `branch_id=eq.${branchId}` },
+        () => loadTickets(branchId)
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") loadTickets(branchId);
+      });
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [branchId]);
+
+  async function bump(t: Ticket) {
+    const to = nextKitchenStatus(t.kitchen_status);
+    if (!to || !branchId) return;
+    setBusyId(t.id);
+    setErrorMsg("");
+    try {
+      await postKitchenBump(t.id, to);
+      await loadTickets(branchId);
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Kitchen update failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const byStatus = useMemo(() => {
+    const m = new Map<KitchenStatus, Ticket[]>();
+    for (const t of tickets) m.set(t.kitchen_status, [...(m.get(t.kitchen_status) ?? []), t]);
+    return m;
+  }, [tickets]);
+
+  return (
+    <div style={{ padding: 16, minHeight: "100vh", background: "#07070b", color: "#fff", fontFamily: "system-ui" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, marginBottom: 12 }}>
+        <div style={{ fontWeight: 900, fontSize: 20 }}>Kitchen</div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          {isOwner ? (
+            <select className="posSelect" value={branchId ?? ""} onChange={(e) => setBranchId(e.target.value)}>
+              {branches.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          {branchId ? (
+            <a href={`/display/${branchId}`} target="_blank" rel="noreferrer" style={{ color: "#aaa", fontSize: 13 }}>
+              Customer display
+            </a>
+          ) : null}
+          <button onClick={() => confirmAndLogout("Log out of the kitchen screen?")}>Logout</button>
+        </div>
+      </div>
+
+      {errorMsg && (
+        <div style={{ padding: 12, border: "1px solid #ff6b6b", borderRadius: 8, marginBottom: 12 }}>{errorMsg}</div>
+      )}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 12, alignItems: "start" }}>
+        {COLUMNS.map((col) => {
+          const list = byStatus.get(col.status) ?? [];
+          return (
+            <div key={col.status} style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 800, opacity: 0.8 }}>
+                {col.title} ({list.length})
+              </div>
+              {list.map((t) => {
+                const waited = (now - Date.parse(t.kitchen_queued_at)) / 1000;
+                return (
+                  <div
+                    key={t.id}
+                    style={{ border: `2px solid ${ageColor(waited)}`, borderRadius: 12, padding: 12, display: "grid", gap: 8 }}
+                  >
+                    <div style={{ display: "flex", justifyContent: "space-between", fontWeight: 900 }}>
+                      <span>#{t.order_no ?? t.id.slice(0, 6)}</span>
+                      <span>{fmtDuration(waited)}</span>
+                    </div>
+                    <div style={{ display: "grid", gap: 4 }}>
+                      {t.order_lines.map((l, i) => (
+                        <div key={i}>
+                          <b>{l.qty}×</b> {l.menu_items?.name ?? "Item"}
+                          {l.modifiers && l.modifiers.length > 0 ? (
+                            <div style={{ fontSize: 12, opacity: 0.7 }}>{describeModifiers(l.modifiers)}</div>
+                          ) : null}
+                        </div>
+                      ))}
+                    </div>
+                    <button disabled={busyId === t.id} onClick={() => bump(t)} style={{ fontWeight: 800, padding: 10 }}>
+                      {col.bump}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -46,6 +46,8 @@ export default function LoginPage() {
 
     if (prof?.role === "owner") {
     router.push("/owner");
+    } else if (prof?.role === "kitchen") {
+    router.push("/kitchen");
     } else {
     router.push("/cashier");
     }
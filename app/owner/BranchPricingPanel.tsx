@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import type { BranchMenuOverride } from "@/lib/pricing";
+
+type Branch = { id: string; name: string };
+
+type Draft = { price: string; is_available: boolean };
+
+type Props = {
+  items: { id: string; name: string; price: number; is_active: boolean }[];
+  onError: (msg: string) => void;
+};
+
+function fmtMoney(n: number) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+function toDraft(o: BranchMenuOverride | undefined): Draft {
+  return { price: o?.price == null ? "" : String(o.price), is_available: o ? o.is_available : true };
+}
+
+// Per-branch price overrides and availability. No row = base price, sold at every branch.
+export default function BranchPricingPanel({ items, onError }: Props) {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState("");
+  const [overrides, setOverrides] = useState<BranchMenuOverride[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase.from("branches").select("id,name").order("name");
+      if (error) return onError(error.message);
+      setBranches((data ?? []) as Branch[]);
+      setBranchId((cur) => cur || data?.[0]?.id || "");
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function loadOverrides(forBranchId: string) {
+    const { data, error } = await supabase
+      .from("branch_menu_items")
+      .select("menu_item_id,price,is_available")
+      .eq("branch_id", forBranchId);
+    if (error) throw new Error(error.message);
+    const rows = (data ?? []) as BranchMenuOverride[];
+    setOverrides(rows);
+    setDrafts(Object.fromEntries(rows.map((o) => [o.menu_item_id, toDraft(o)])));
+  }
+
+  useEffect(() => {
+    if (!branchId) return;
+    loadOverrides(branchId).catch((e) => onError(e instanceof Error ? e.message : "Failed to load branch menu"));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [branchId]);
+
+  const overrideFor = (itemId: string) => overrides.find((o) => o.menu_item_id === itemId);
+  const draftFor = (itemId: string) => drafts[itemId] ?? toDraft(overrideFor(itemId));
+
+  async function save(itemId: string) {
+    const d = draftFor(itemId);
+    setSaving(true);
+    onError("");
+    try {
+      const price = d.price.trim() === "" ? null : Number(d.price);
+      if (price !== null && (!Number.isFinite(price) || price < 0)) throw new Error("Price must be 0 or more");
+
+      // an override that changes nothing is just removed
+      const { error } =
+        price === null && d.is_available
+          ? await supabase.from("branch_menu_items").delete().eq("branch_id", branchId).eq("menu_item_id", itemId)
+          : await supabase.from("branch_menu_items").upsert({
+              branch_id: branchId,
+              menu_item_id: itemId,
+              price: price === null ? null : Math.round(price * 100) / 100,
+              is_available: d.is_available,
+              updated_at: new Date().toISOString(),
+            });
+      if (error) throw new Error(error.message);
+      await loadOverrides(branchId);
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "Failed to save branch price");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const cell: React.CSSProperties = { borderBottom: "1px solid #222", padding: 6, verticalAlign: "middle" };
+
+  return (
+    <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 8 }}>Branch Pricing</div>
+      <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 10 }}>
+        Leave the branch price blank to use the base price. Past orders keep the price they were charged.
+      </div>
+
+      <select className="posSelect" value={branchId} onChange={(e) => setBranchId(e.target.value)}>
+        {branches.map((b) => (
+          <option key={b.id} value={b.id}>
+            {b.name}
+          </option>
+        ))}
+      </select>
+
+      <div style={{ overflowX: "auto", marginTop: 10 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...cell, textAlign: "left" }}>Item</th>
+              <th style={{ ...cell, textAlign: "left" }}>Base</th>
+              <th style={{ ...cell, textAlign: "left" }}>Branch price</th>
+              <th style={{ ...cell, textAlign: "left" }}>Sold here</th>
+              <th style={cell} />
+            </tr>
+          </thead>
+          <tbody>
+            {items
+              .filter((i) => i.is_active)
+              .map((i) => {
+                const d = draftFor(i.id);
+                const o = overrideFor(i.id);
+                return (
+                  <tr key={i.id} style={{ opacity: d.is_available ? 1 : 0.5 }}>
+                    <td style={{ ...cell, fontWeight: 700 }}>{i.name}</td>
+                    <td style={cell}>{fmtMoney(i.price)}</td>
+                    <td style={cell}>
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={d.price}
+                        placeholder={Number(i.price).toFixed(2)}
+                        onChange={(e) => setDrafts({ ...drafts, [i.id]: { ...d, price: e.target.value } })}
+                        style={{ width: 100 }}
+                      />
+                    </td>
+                    <td style={cell}>
+                      <input
+                        type="checkbox"
+                        checked={d.is_available}
+                        onChange={(e) => setDrafts({ ...drafts, [i.id]: { ...d, is_available: e.target.checked } })}
+                      />
+                    </td>
+                    <td style={{ ...cell, textAlign: "right", whiteSpace: "nowrap" }}>
+                      <span style={{ display: "inline-flex", gap: 6 }}>
+                        <button disabled={saving || !branchId} onClick={() => save(i.id)}>
+                          Save
+                        </button>
+                        {o ? <span style={{ fontSize: 12, opacity: 0.7 }}>override</span> : null}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
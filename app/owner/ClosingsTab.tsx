@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { getMyProfile } from "@/lib/getMyProfile";
+import { addDaysYMD, phTodayYMD } from "@/lib/phTime";
+import { dayCutoffOf, type BranchSettings } from "@/lib/branchSettings";
+import { postEodClosing } from "@/lib/orderApi";
+import { fmtInvoiceNo } from "@/lib/receipt";
+import type { EodClosingRow } from "@/lib/eodReport";
+
+type Branch = { id: string; name: string };
+
+function fmtMoney(n: number | null | undefined) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+function fmtTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-PH", { timeZone: "Asia/Manila" }) : "—";
+}
+
+export default function ClosingsTab() {
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState("");
+
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState("");
+  // set by pickBranch once the branch's cutoff is known
+  const [businessDate, setBusinessDate] = useState("");
+  const [closing, setClosing] = useState(false);
+
+  const [settings, setSettings] = useState<BranchSettings[]>([]);
+  const [cutoffDraft, setCutoffDraft] = useState("00:00");
+  const [savingCutoff, setSavingCutoff] = useState(false);
+
+  const [closings, setClosings] = useState<EodClosingRow[]>([]);
+
+  const branchNameById = useMemo(() => new Map(branches.map((b) => [b.id, b.name])), [branches]);
+
+  async function loadClosings() {
+    const { data, error } = await supabase
+      .from("eod_closings")
+      .select("*")
+      .order("business_date", { ascending: false })
+      .order("closed_at", { ascending: false })
+      .limit(200);
+    if (error) throw new Error(error.message);
+    setClosings((data ?? []) as EodClosingRow[]);
+  }
+
+  async function loadSettings() {
+    const { data, error } = await supabase.from("branch_settings").select("branch_id,business_day_cutoff");
+    if (error) throw new Error(error.message);
+    setSettings((data ?? []) as BranchSettings[]);
+    return (data ?? []) as BranchSettings[];
+  }
+
+  useEffect(() => {
+    (async () => {
+      setLoading(true);
+      setErrorMsg("");
+      try {
+        const prof = await getMyProfile();
+        if (prof.role !== "owner") throw new Error("Not an owner account.");
+
+        const { data: b, error: bErr } = await supabase.from("branches").select("id,name").order("name");
+        if (bErr) throw new Error(bErr.message);
+        setBranches((b ?? []) as Branch[]);
+        const first = b?.[0]?.id ?? "";
+
+        const [s] = await Promise.all([loadSettings(), loadClosings()]);
+        pickBranch(first, s);
+      } catch (e) {
+        setErrorMsg(e instanceof Error ? e.message : "Failed to load closings");
+      } finally {
+        setLoading(false);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // a branch's last finished business day depends on its own cutoff
+  function pickBranch(id: string, s: BranchSettings[] = settings) {
+    const cutoff = dayCutoffOf(s, id);
+    setBranchId(id);
+    setCutoffDraft(cutoff);
+    setBusinessDate(addDaysYMD(phTodayYMD(cutoff), -1));
+  }
+
+  async function saveCutoff() {
+    if (!branchId) return;
+    setSavingCutoff(true);
+    setErrorMsg("");
+    try {
+      if (!/^\d{2}:\d{2}$/.test(cutoffDraft) || cutoffDraft >= "12:00") {
+        throw new Error("The business day has to end between 00:00 and 11:59");
+      }
+      const { error } = await supabase.from("branch_settings").upsert({
+        branch_id: branchId,
+        business_day_cutoff: cutoffDraft,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw new Error(error.message);
+      pickBranch(branchId, await loadSettings());
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to save cutoff");
+    } finally {
+      setSavingCutoff(false);
+    }
+  }
+
+  const cutoff = dayCutoffOf(settings, branchId);
+
+  // the next day to close is the one after this branch's latest closing
+  const lastClosed = useMemo(
+    () => closings.find((c) => c.branch_id === branchId)?.business_date ?? null,
+    [closings, branchId]
+  );
+
+  async function closeDay() {
+    if (!branchId) return;
+    const name = branchNameById.get(branchId) ?? "this branch";
+    const ok = window.confirm(
+      `Close ${name} for ${businessDate}? The closing is permanent and can't be edited or redone.`
+    );
+    if (!ok) return;
+
+    setClosing(true);
+    setErrorMsg("");
+    try {
+      const json = await postEodClosing(branchId, businessDate);
+      await loadClosings();
+      window.open(`/owner/closings/${json.closing.id}`, "_blank");
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Closing failed");
+    } finally {
+      setClosing(false);
+    }
+  }
+
+  if (loading) return <div style={{ padding: 16 }}>Loading closings…</div>;
+
+  const cell: React.CSSProperties = { borderBottom: "1px solid #222", padding: 6 };
+  const head: React.CSSProperties = { borderBottom: "1px solid #333", padding: 6 };
+
+  return (
+    <div style={{ padding: 16, display: "grid", gap: 16 }}>
+      {errorMsg && (
+        <div style={{ padding: 12, border: "1px solid #ff6b6b", borderRadius: 8 }}>
+          {errorMsg}
+        </div>
+      )}
+
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>End-of-Day Closing</div>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "center" }}>
+          <select value={branchId} onChange={(e) => pickBranch(e.target.value)}>
+            {branches.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>Business date</span>
+            <input
+              type="date"
+              value={businessDate}
+              max={addDaysYMD(phTodayYMD(cutoff), -1)}
+              onChange={(e) => setBusinessDate(e.target.value)}
+            />
+          </label>
+          <button disabled={closing || !branchId} onClick={closeDay}>
+            {closing ? "Closing…" : "Close Day"}
+          </button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+          {lastClosed
+            ? `Last closed: ${lastClosed}. Days are closed in order; the next one is ${addDaysYMD(lastClosed, 1)}.`
+            : "No closings yet for this branch."}
+        </div>
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "center", marginTop: 12 }}>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>Business day ends at</span>
+            <input type="time" value={cutoffDraft} onChange={(e) => setCutoffDraft(e.target.value)} />
+          </label>
+          <button disabled={savingCutoff || !branchId || cutoffDraft === cutoff} onClick={saveCutoff}>
+            Save
+          </button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+          Sales before this time count toward the previous day, for branches open past midnight. Only new orders
+          are affected.
+        </div>
+      </div>
+
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        {closings.length === 0 ? (
+          <div style={{ color: "#888" }}>No closings yet.</div>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ textAlign: "left" }}>
+                  <th style={head}>Branch</th>
+                  <th style={head}>Business date</th>
+                  <th style={head}>Invoices</th>
+                  <th style={head}>Gross</th>
+                  <th style={head}>Net</th>
+                  <th style={head}>Grand total</th>
+                  <th style={head}>Closed</th>
+                  <th style={head}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {closings.map((c) => (
+                  <tr key={c.id}>
+                    <td style={cell}>{branchNameById.get(c.branch_id) ?? c.branch_id}</td>
+                    <td style={cell}>{c.business_date}</td>
+                    <td style={cell}>
+                      {c.report.first_invoice_no == null
+                        ? "—"
+                        : `${fmtInvoiceNo(c.report.first_invoice_no)} – ${fmtInvoiceNo(c.report.last_invoice_no)}`}
+                    </td>
+                    <td style={cell}>{fmtMoney(c.report.gross_sales)}</td>
+                    <td style={cell}>{fmtMoney(c.net_sales)}</td>
+                    <td style={{ ...cell, fontWeight: 700 }}>{fmtMoney(c.new_grand_total)}</td>
+                    <td style={cell}>{fmtTime(c.closed_at)}</td>
+                    <td style={cell}>
+                      <a href={`/owner/closings/${c.id}`} target="_blank" rel="noreferrer">
+                        View / Print
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { getMyProfile } from "@/lib/getMyProfile";
+import { phTodayYMD } from "@/lib/phTime";
+import { latestDayCutoff, type BranchSettings } from "@/lib/branchSettings";
+import { fetchAll } from "@/lib/eodReport";
+import { parseGcashStatement, reconcileGcash, type GcashPosPayment, type GcashTxn, type ReconRow } from "@/lib/gcash";
+
+type Branch = { id: string; name: string };
+
+const STATUS_COLORS: Record<ReconRow["status"], string> = {
+  MATCHED: "rgba(124, 255, 207, 0.10)",
+  MISSING: "rgba(255, 77, 79, 0.10)",
+  EXTRA: "rgba(255, 179, 0, 0.10)",
+};
+
+function fmtMoney(n: number) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+export default function GcashReconTab() {
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState("");
+
+  const [branches, setBranches] = useState<Branch[]>([]);
+  // today's business date, once the branch cutoffs are loaded
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  const [pos, setPos] = useState<GcashPosPayment[]>([]);
+  const [noRefCount, setNoRefCount] = useState(0);
+  const [txns, setTxns] = useState<GcashTxn[] | null>(null);
+  const [fileName, setFileName] = useState("");
+
+  const branchNameById = useMemo(() => new Map(branches.map((b) => [b.id, b.name])), [branches]);
+
+  async function loadPos(startYmd: string, endYmd: string) {
+    // GCash tenders (including the GCash part of split payments) on paid orders in range.
+    // Filtered through the join rather than an .in() of order ids, which outgrows the URL on a busy range.
+    const tenders = await fetchAll((from, to) =>
+      supabase
+        .from("order_payments")
+        .select("id,order_id,amount,reference,orders!inner(branch_id,order_no,created_at)")
+        .eq("method", "GCASH")
+        .eq("orders.status", "PAID")
+        .gte("orders.business_date", startYmd)
+        .lte("orders.business_date", endYmd)
+        .order("id")
+        .range(from, to)
+    );
+
+    setNoRefCount(tenders.filter((x) => !x.reference).length);
+    setPos(
+      tenders
+        .filter((x) => x.reference)
+        .map((x) => {
+          const ord = x.orders as unknown as { branch_id: string; order_no: string | number | null; created_at: string };
+          return {
+            order_id: x.order_id,
+            branch_id: ord.branch_id,
+            order_no: ord.order_no ?? null,
+            created_at: ord.created_at,
+            ref: x.reference,
+            amount: Number(x.amount || 0),
+          };
+        })
+    );
+  }
+
+  useEffect(() => {
+    (async () => {
+      setLoading(true);
+      setErrorMsg("");
+      try {
+        const prof = await getMyProfile();
+        if (prof.role !== "owner") throw new Error("Not an owner account.");
+
+        const { data: b, error: bErr } = await supabase.from("branches").select("id,name").order("name");
+        if (bErr) throw new Error(bErr.message);
+        setBranches((b ?? []) as Branch[]);
+
+        const { data: bs, error: bsErr } = await supabase.from("branch_settings").select("branch_id,business_day_cutoff");
+        if (bsErr) throw new Error(bsErr.message);
+        const today = phTodayYMD(latestDayCutoff((bs ?? []) as BranchSettings[]));
+        setStartDate(today);
+        setEndDate(today);
+
+        await loadPos(today, today);
+      } catch (e) {
+        setErrorMsg(e instanceof Error ? e.message : "Failed to load GCash payments");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  async function applyRange() {
+    setErrorMsg("");
+    try {
+      await loadPos(startDate, endDate);
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to load GCash payments");
+    }
+  }
+
+  async function importCsv(file: File | undefined) {
+    if (!file) return;
+    setErrorMsg("");
+    try {
+      const parsed = parseGcashStatement(await file.text());
+      setTxns(parsed);
+      setFileName(file.name);
+    } catch (e) {
+      setTxns(null);
+      setFileName("");
+      setErrorMsg(e instanceof Error ? e.message : "Could not read CSV");
+    }
+  }
+
+  const recon = useMemo(() => (txns ? reconcileGcash(pos, txns) : []), [pos, txns]);
+
+  const counts = useMemo(() => {
+    const c = { MATCHED: 0, MISSING: 0, EXTRA: 0, AMOUNT: 0 };
+    for (const r of recon) {
+      c[r.status] += 1;
+      if (r.status === "MATCHED" && r.amountDiff !== 0) c.AMOUNT += 1;
+    }
+    return c;
+  }, [recon]);
+
+  if (loading) return <div style={{ padding: 16 }}>Loading GCash payments…</div>;
+
+  return (
+    <div style={{ padding: 16, display: "grid", gap: 16 }}>
+      {errorMsg && (
+        <div style={{ padding: 12, border: "1px solid #ff6b6b", borderRadius: 8 }}>
+          {errorMsg}
+        </div>
+      )}
+
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>GCash Reconciliation</div>
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "center" }}>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>From</span>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </label>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>To</span>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </label>
+          <button onClick={applyRange}>Load Orders</button>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>GCash statement (CSV)</span>
+            <input type="file" accept=".csv,text/csv" onChange={(e) => importCsv(e.target.files?.[0])} />
+          </label>
+        </div>
+
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+          {pos.length} GCash payments with reference in range
+          {noRefCount > 0 ? ` • ${noRefCount} older GCash payments have no reference` : ""}
+          {fileName ? ` • ${txns?.length ?? 0} incoming payments in ${fileName}` : ""}
+        </div>
+      </div>
+
+      {txns ? (
+        <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+          <div style={{ display: "flex", gap: 16, flexWrap: "wrap", marginBottom: 10, fontWeight: 700 }}>
+            <span>Matched: {counts.MATCHED}</span>
+            <span style={{ color: "#ffd166" }}>Amount differs: {counts.AMOUNT}</span>
+            <span style={{ color: "#ff8a8a" }}>Missing from statement: {counts.MISSING}</span>
+            <span style={{ color: "#ffb300" }}>Extra on statement: {counts.EXTRA}</span>
+          </div>
+
+          {recon.length === 0 ? (
+            <div style={{ color: "#888" }}>Nothing to reconcile.</div>
+          ) : (
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ textAlign: "left" }}>
+                    <th style={{ borderBottom: "1px solid #333", padding: 6 }}>Status</th>
+                    <th style={{ borderBottom: "1px solid #333", padding: 6 }}>Reference</th>
+                    <th style={{ borderBottom: "1px solid #333", padding: 6 }}>Order</th>
+                    <th style={{ borderBottom: "1px solid #333", padding: 6 }}>POS Amount</th>
+                    <th style={{ borderBottom: "1px solid #333", padding: 6 }}>Statement</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recon.map((r) => (
+                    <tr key={`${r.status}-${r.ref}`} style={{ background: STATUS_COLORS[r.status] }}>
+                      <td style={{ borderBottom: "1px solid #222", padding: 6, fontWeight: 700 }}>
+                        {r.status}
+                        {r.status === "MATCHED" && r.amountDiff !== 0 ? " (amount differs)" : ""}
+                      </td>
+                      <td style={{ borderBottom: "1px solid #222", padding: 6 }}>{r.ref}</td>
+                      <td style={{ borderBottom: "1px solid #222", padding: 6 }}>
+                        {r.status === "EXTRA"
+                          ? "—"
+                          : `${branchNameById.get(r.pos.branch_id) ?? r.pos.branch_id} #${r.pos.order_no ?? "—"}`}
+                      </td>
+                      <td style={{ borderBottom: "1px solid #222", padding: 6 }}>
+                        {r.status === "EXTRA" ? "—" : fmtMoney(r.pos.amount)}
+                      </td>
+                      <td style={{ borderBottom: "1px solid #222", padding: 6 }}>
+                        {r.status === "MISSING" ? "—" : `${fmtMoney(r.txn.amount)} ${r.txn.date}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "../../lib/supabase"; // adjust path
 import { getMyProfile } from "@/lib/getMyProfile";
+import { fmtQty, toBaseQty, unitsFor, type IngredientUnit } from "@/lib/units";
+import RecipesPanel, { type Ingredient, type RecipeRow } from "./RecipesPanel";
 
 type Branch = { id: string; name: string; is_commissary: boolean };
 type MenuItem = { id: string; name: string };
@@ -16,6 +18,20 @@ type OnhandRow = {
   item_name?: string;
 };
 
+// menu_item_components: a bundle (combo meal) is stocked as its components
+type ComponentRow = {
+  bundle_item_id: string;
+  component_item_id: string;
+  qty: number;
+};
+
+type IngredientOnhandRow = {
+  branch_id: string;
+  ingredient_id: string;
+  on_hand: number;
+  updated_at: string;
+};
+
 type MoveRow = {
   id: string;
   created_at: string;
@@ -44,6 +60,16 @@ export default function InventoryTab() {
 
   const [onhand, setOnhand] = useState<OnhandRow[]>([]);
   const [moves, setMoves] = useState<MoveRow[]>([]);
+  const [components, setComponents] = useState<ComponentRow[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [ingredientUnits, setIngredientUnits] = useState<IngredientUnit[]>([]);
+  const [recipes, setRecipes] = useState<RecipeRow[]>([]);
+  const [ingredientOnhand, setIngredientOnhand] = useState<IngredientOnhandRow[]>([]);
+
+  // bundle form
+  const [bundleId, setBundleId] = useState<string>("");
+  const [componentId, setComponentId] = useState<string>("");
+  const [componentQty, setComponentQty] = useState<number>(1);
 
   
 
@@ -52,6 +78,10 @@ export default function InventoryTab() {
   const [fromBranchId, setFromBranchId] = useState<string>("");
   const [toBranchId, setToBranchId] = useState<string>("");
   const [menuItemId, setMenuItemId] = useState<string>("");
+  // moves can target finished goods (inventory_moves) or ingredients (ingredient_moves)
+  const [target, setTarget] = useState<"MENU" | "INGREDIENT">("MENU");
+  const [ingredientId, setIngredientId] = useState<string>("");
+  const [unit, setUnit] = useState<string>("");
   const [qty, setQty] = useState<number>(1);
   const [reason, setReason] = useState<string>("");
 
@@ -131,6 +161,33 @@ export default function InventoryTab() {
     })) as MoveRow[];
 
     setMoves(hydratedMoves);
+
+    const { data: comp, error: compErr } = await supabase
+      .from("menu_item_components")
+      .select("bundle_item_id,component_item_id,qty");
+    if (compErr) throw new Error(compErr.message);
+    setComponents((comp ?? []) as ComponentRow[]);
+
+    const [
+      { data: ing, error: ingErr },
+      { data: iu, error: iuErr },
+      { data: rec, error: recErr },
+      { data: ioh, error: iohErr },
+    ] = await Promise.all([
+      supabase.from("ingredients").select("id,name,base_unit,low_stock_at,is_active").order("name"),
+      supabase.from("ingredient_units").select("ingredient_id,unit,factor"),
+      supabase.from("menu_item_recipes").select("menu_item_id,ingredient_id,qty"),
+      supabase.from("ingredient_onhand").select("branch_id,ingredient_id,on_hand,updated_at"),
+    ]);
+    if (ingErr) throw new Error(ingErr.message);
+    if (iuErr) throw new Error(iuErr.message);
+    if (recErr) throw new Error(recErr.message);
+    if (iohErr) throw new Error(iohErr.message);
+
+    setIngredients((ing ?? []) as Ingredient[]);
+    setIngredientUnits((iu ?? []) as IngredientUnit[]);
+    setRecipes((rec ?? []) as RecipeRow[]);
+    setIngredientOnhand((ioh ?? []) as IngredientOnhandRow[]);
   }
 
   function numberOrZero(n: any) {
@@ -174,7 +231,8 @@ export default function InventoryTab() {
       const prof = await getMyProfile();
       if (prof.role !== "owner") throw new Error("Not an owner account");
 
-      if (!menuItemId) throw new Error("Pick an item");
+      if (target === "MENU" && !menuItemId) throw new Error("Pick an item");
+      if (target === "INGREDIENT" && !selectedIngredient) throw new Error("Pick an ingredient");
       
       if (!qty || Number(qty) === 0) {
        throw new Error("Qty must not be 0");
@@ -226,7 +284,20 @@ export default function InventoryTab() {
         }
       }
 
-      const { error } = await supabase.from("inventory_moves").insert(payload);
+      if (target === "INGREDIENT" && selectedIngredient) {
+        // ingredient stock is kept in base units; keep what was typed for the audit trail
+        const baseQty = toBaseQty(payload.qty, unit || selectedIngredient.base_unit, ingredientUnitOptions);
+        if (baseQty === null || baseQty <= 0) throw new Error("Qty must be > 0");
+        delete payload.menu_item_id;
+        payload.ingredient_id = selectedIngredient.id;
+        payload.entered_qty = payload.qty;
+        payload.entered_unit = unit || selectedIngredient.base_unit;
+        payload.qty = baseQty;
+      }
+
+      const { error } = await supabase
+        .from(target === "INGREDIENT" ? "ingredient_moves" : "inventory_moves")
+        .insert(payload);
       if (error) throw new Error(error.message);
 
       await refreshAll();
@@ -235,6 +306,86 @@ export default function InventoryTab() {
     }
   }
 
+  async function saveComponent() {
+    setErrorMsg("");
+    try {
+      if (!bundleId || !componentId) throw new Error("Pick a bundle and a component");
+      if (bundleId === componentId) throw new Error("A bundle cannot contain itself");
+      if (bundleIds.has(componentId)) throw new Error("A bundle cannot be a component of another bundle");
+      if (!componentQty || componentQty <= 0) throw new Error("Qty must be > 0");
+
+      const { error } = await supabase
+        .from("menu_item_components")
+        .upsert({ bundle_item_id: bundleId, component_item_id: componentId, qty: Number(componentQty) });
+      if (error) throw new Error(error.message);
+
+      await refreshAll();
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to save bundle component");
+    }
+  }
+
+  async function removeComponent(c: ComponentRow) {
+    const ok = window.confirm("Remove this component from the bundle?");
+    if (!ok) return;
+    setErrorMsg("");
+    const { error } = await supabase
+      .from("menu_item_components")
+      .delete()
+      .eq("bundle_item_id", c.bundle_item_id)
+      .eq("component_item_id", c.component_item_id);
+    if (error) setErrorMsg(error.message);
+    else await refreshAll();
+  }
+
+  const itemNameById = useMemo(() => new Map(menu.map((m) => [m.id, m.name])), [menu]);
+
+  const selectedIngredient = ingredients.find((i) => i.id === ingredientId) ?? null;
+  const ingredientUnitOptions = selectedIngredient
+    ? unitsFor(selectedIngredient.id, selectedIngredient.base_unit, ingredientUnits)
+    : [];
+  const convertedQty = selectedIngredient
+    ? toBaseQty(Math.abs(Number(qty || 0)), unit || selectedIngredient.base_unit, ingredientUnitOptions)
+    : null;
+
+  const ingredientOnhandByBranch = useMemo(() => {
+    const branchName = new Map(branches.map((b) => [b.id, b.name]));
+    const ingById = new Map(ingredients.map((i) => [i.id, i]));
+    const map = new Map<string, { row: IngredientOnhandRow; ingredient: Ingredient | undefined }[]>();
+    for (const r of ingredientOnhand) {
+      const k = branchName.get(r.branch_id) ?? r.branch_id;
+      const arr = map.get(k) ?? [];
+      arr.push({ row: r, ingredient: ingById.get(r.ingredient_id) });
+      map.set(k, arr);
+    }
+    for (const arr of map.values()) {
+      arr.sort((a, b) => String(a.ingredient?.name).localeCompare(String(b.ingredient?.name)));
+    }
+    return Array.from(map.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [ingredientOnhand, ingredients, branches]);
+  const bundleIds = useMemo(() => new Set(components.map((c) => c.bundle_item_id)), [components]);
+
+  // bundles hold no stock of their own, so they are not offered for stock moves
+  const stockedMenu = useMemo(() => menu.filter((m) => !bundleIds.has(m.id)), [menu, bundleIds]);
+
+  const bundles = useMemo(() => {
+    const map = new Map<string, ComponentRow[]>();
+    for (const c of components) {
+      const arr = map.get(c.bundle_item_id) ?? [];
+      arr.push(c);
+      map.set(c.bundle_item_id, arr);
+    }
+    return Array.from(map.entries())
+      .map(([id, rows]) => ({
+        id,
+        name: itemNameById.get(id) ?? id,
+        rows: rows.sort((a, b) =>
+          String(itemNameById.get(a.component_item_id)).localeCompare(String(itemNameById.get(b.component_item_id)))
+        ),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [components, itemNameById]);
+
   // Group onhand by branch for nicer display
   const onhandByBranch = useMemo(() => {
     const map = new Map<string, OnhandRow[]>();
@@ -292,6 +443,15 @@ export default function InventoryTab() {
       <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
         <div style={{ fontWeight: 700, marginBottom: 8 }}>Inventory Actions</div>
 
+        <div style={{ display: "flex", gap: 8, marginBottom: 10 }}>
+          <button onClick={() => setTarget("MENU")} style={{ fontWeight: target === "MENU" ? 900 : 400 }}>
+            Menu items
+          </button>
+          <button onClick={() => setTarget("INGREDIENT")} style={{ fontWeight: target === "INGREDIENT" ? 900 : 400 }}>
+            Ingredients
+          </button>
+        </div>
+
         <div style={{ display: "grid", gap: 8, gridTemplateColumns: "repeat(3, minmax(0, 1fr))" }}>
           <label>
             <div style={{ fontSize: 12, opacity: 0.7 }}>Type</div>
@@ -307,6 +467,7 @@ export default function InventoryTab() {
             </select>
           </label>
 
+          {target === "MENU" ? (
           <label>
             <div style={{ fontSize: 12, opacity: 0.7 }}>Item</div>
             <select
@@ -315,13 +476,54 @@ export default function InventoryTab() {
                     onChange={(e) => setMenuItemId(e.target.value)}
                     style={{ width: "100%" }}
                   >
-              {menu.map((m) => (
+              {stockedMenu.map((m) => (
                 <option key={m.id} value={m.id}>
                   {m.name}
                 </option>
               ))}
             </select>
           </label>
+          ) : (
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Ingredient</div>
+            <div style={{ display: "flex", gap: 6 }}>
+              <select
+                className="posSelect"
+                value={ingredientId}
+                onChange={(e) => {
+                  setIngredientId(e.target.value);
+                  setUnit("");
+                }}
+                style={{ width: "100%" }}
+              >
+                <option value="">—</option>
+                {ingredients
+                  .filter((i) => i.is_active)
+                  .map((i) => (
+                    <option key={i.id} value={i.id}>
+                      {i.name}
+                    </option>
+                  ))}
+              </select>
+              <select
+                className="posSelect"
+                value={unit || selectedIngredient?.base_unit || ""}
+                onChange={(e) => setUnit(e.target.value)}
+              >
+                {ingredientUnitOptions.map((u) => (
+                  <option key={u.unit} value={u.unit}>
+                    {u.unit}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {selectedIngredient && convertedQty !== null && (unit || selectedIngredient.base_unit) !== selectedIngredient.base_unit ? (
+              <div style={{ fontSize: 11, opacity: 0.6, marginTop: 4 }}>
+                = {fmtQty(convertedQty, selectedIngredient.base_unit)}
+              </div>
+            ) : null}
+          </label>
+          )}
 
           <label>
             <div style={{ fontSize: 12, opacity: 0.7 }}>Qty</div>
@@ -496,6 +698,131 @@ export default function InventoryTab() {
    
 
     
+      {/* INGREDIENT STOCK */}
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>Ingredient Stock (ingredient_onhand)</div>
+
+        {ingredientOnhandByBranch.length === 0 ? (
+          <div style={{ color: "#888" }}>No ingredient stock yet.</div>
+        ) : (
+          ingredientOnhandByBranch.map(([branchName, rows]) => (
+            <div key={branchName} style={{ marginBottom: 14 }}>
+              <div style={{ fontWeight: 700, marginBottom: 6 }}>{branchName}</div>
+              <div style={{ display: "grid", gap: 6 }}>
+                {rows.map(({ row, ingredient }) => {
+                  const stock = Number(row.on_hand || 0);
+                  const low = stock <= Number(ingredient?.low_stock_at || 0);
+                  return (
+                    <div
+                      key={`${row.branch_id}-${row.ingredient_id}`}
+                      style={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        borderBottom: "1px dashed #333",
+                        paddingBottom: 4,
+                      }}
+                    >
+                      <span>{ingredient?.name ?? row.ingredient_id}</span>
+                      <span style={{ fontWeight: 700, color: low ? "#ff8a8a" : "#fff" }}>
+                        {fmtQty(stock, ingredient?.base_unit ?? "")}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <RecipesPanel
+        menu={menu}
+        ingredients={ingredients}
+        units={ingredientUnits}
+        recipes={recipes}
+        onChanged={() => refreshAll()}
+        onError={setErrorMsg}
+      />
+
+      {/* BUNDLES */}
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>Bundles / Combos (menu_item_components)</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 10 }}>
+          Selling a bundle deducts each component from the branch stock instead of the bundle itself.
+        </div>
+
+        <div style={{ display: "grid", gap: 8, gridTemplateColumns: "2fr 2fr 1fr auto", alignItems: "end" }}>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Bundle</div>
+            <select className="posSelect" value={bundleId} onChange={(e) => setBundleId(e.target.value)} style={{ width: "100%" }}>
+              <option value="">—</option>
+              {menu.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Component</div>
+            <select
+              className="posSelect"
+              value={componentId}
+              onChange={(e) => setComponentId(e.target.value)}
+              style={{ width: "100%" }}
+            >
+              <option value="">—</option>
+              {stockedMenu
+                .filter((m) => m.id !== bundleId)
+                .map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Qty per bundle</div>
+            <input
+              type="number"
+              value={componentQty}
+              onChange={(e) => setComponentQty(Number(e.target.value))}
+              style={{ width: "100%" }}
+            />
+          </label>
+          <button onClick={saveComponent}>Save Component</button>
+        </div>
+
+        {bundles.length === 0 ? (
+          <div style={{ color: "#888", marginTop: 10 }}>No bundles defined.</div>
+        ) : (
+          <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+            {bundles.map((b) => (
+              <div key={b.id}>
+                <div style={{ fontWeight: 700, marginBottom: 4 }}>{b.name}</div>
+                {b.rows.map((c) => (
+                  <div
+                    key={c.component_item_id}
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "center",
+                      borderBottom: "1px dashed #333",
+                      padding: "4px 0",
+                    }}
+                  >
+                    <span>
+                      {itemNameById.get(c.component_item_id) ?? c.component_item_id} × {Number(c.qty)}
+                    </span>
+                    <button onClick={() => removeComponent(c)}>Remove</button>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* MOVEMENTS */}
      {showMoves && (
           <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
@@ -0,0 +1,469 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { getMyProfile } from "@/lib/getMyProfile";
+import BranchPricingPanel from "./BranchPricingPanel";
+import PriceHistoryPanel from "./PriceHistoryPanel";
+import OrderTypeFeesPanel from "./OrderTypeFeesPanel";
+import ModifiersPanel from "./ModifiersPanel";
+
+type Category = { id: string; name: string; sort_order: number; is_active: boolean };
+
+type Item = {
+  id: string;
+  name: string;
+  price: number;
+  category: string | null;
+  category_id: string | null;
+  image_url: string | null;
+  is_active: boolean;
+  sort_order: number;
+};
+
+type ItemDraft = { name: string; price: string; category_id: string; file: File | null };
+
+const MENU_IMAGE_BUCKET = "menu-images";
+
+const emptyDraft: ItemDraft = { name: "", price: "", category_id: "", file: null };
+
+function fmtMoney(n: number) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+async function uploadImage(itemId: string, file: File) {
+  const ext = file.name.split(".").pop()?.toLowerCase() || "jpg";
+  const path = `${itemId}/${Date.now()}.${ext}`;
+  const { error } = await supabase.storage
+    .from(MENU_IMAGE_BUCKET)
+    .upload(path, file, { upsert: true, contentType: file.type || undefined });
+  if (error) throw new Error(error.message);
+  return supabase.storage.from(MENU_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+function checkDraft(d: ItemDraft) {
+  const price = Number(d.price);
+  if (d.name.trim().length < 2) throw new Error("Enter an item name");
+  if (d.price.trim() === "" || !Number.isFinite(price) || price < 0) throw new Error("Price must be 0 or more");
+  return { name: d.name.trim(), price: Math.round(price * 100) / 100 };
+}
+
+export default function MenuTab() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState("");
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+
+  const [newCategory, setNewCategory] = useState("");
+  const [newItem, setNewItem] = useState<ItemDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<ItemDraft>(emptyDraft);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const categoryById = useMemo(() => new Map(categories.map((c) => [c.id, c])), [categories]);
+
+  async function refresh() {
+    const [{ data: c, error: cErr }, { data: i, error: iErr }] = await Promise.all([
+      supabase.from("menu_categories").select("id,name,sort_order,is_active").order("sort_order").order("name"),
+      supabase
+        .from("menu_items")
+        .select("id,name,price,category,category_id,image_url,is_active,sort_order")
+        .order("sort_order")
+        .order("name"),
+    ]);
+    if (cErr) throw new Error(cErr.message);
+    if (iErr) throw new Error(iErr.message);
+    setCategories((c ?? []) as Category[]);
+    setItems((i ?? []) as Item[]);
+  }
+
+  useEffect(() => {
+    (async () => {
+      setLoading(true);
+      setErrorMsg("");
+      try {
+        const prof = await getMyProfile();
+        if (prof.role !== "owner") throw new Error("Not an owner account.");
+        await refresh();
+      } catch (e) {
+        setErrorMsg(e instanceof Error ? e.message : "Failed to load menu");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  async function run(fn: () => Promise<void>) {
+    setSaving(true);
+    setErrorMsg("");
+    try {
+      await fn();
+      await refresh();
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to save menu");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // ---------- categories ----------
+
+  const addCategory = () =>
+    run(async () => {
+      const name = newCategory.trim();
+      if (name.length < 2) throw new Error("Enter a category name");
+      const nextOrder = categories.reduce((m, c) => Math.max(m, c.sort_order), -1) + 1;
+      const { error } = await supabase.from("menu_categories").insert({ name, sort_order: nextOrder });
+      if (error) throw new Error(error.message);
+      setNewCategory("");
+    });
+
+  const renameCategory = (c: Category) => {
+    const name = window.prompt("Category name", c.name)?.trim();
+    if (!name || name === c.name) return;
+    run(async () => {
+      const { error } = await supabase.from("menu_categories").update({ name }).eq("id", c.id);
+      if (error) throw new Error(error.message);
+      // keep the legacy text column in step
+      const { error: iErr } = await supabase.from("menu_items").update({ category: name }).eq("category_id", c.id);
+      if (iErr) throw new Error(iErr.message);
+    });
+  };
+
+  const moveCategory = (idx: number, dir: -1 | 1) => {
+    const other = categories[idx + dir];
+    const cur = categories[idx];
+    if (!other || !cur) return;
+    run(async () => {
+      // renumber everything so equal sort_order values can't get stuck
+      const order = categories.map((c) => c.id);
+      order[idx] = other.id;
+      order[idx + dir] = cur.id;
+      for (const [pos, id] of order.entries()) {
+        const { error } = await supabase.from("menu_categories").update({ sort_order: pos }).eq("id", id);
+        if (error) throw new Error(error.message);
+      }
+    });
+  };
+
+  const toggleCategory = (c: Category) =>
+    run(async () => {
+      const { error } = await supabase.from("menu_categories").update({ is_active: !c.is_active }).eq("id", c.id);
+      if (error) throw new Error(error.message);
+    });
+
+  // ---------- items ----------
+
+  const addItem = () =>
+    run(async () => {
+      const { name, price } = checkDraft(newItem);
+      const cat = categoryById.get(newItem.category_id);
+      const inCategory = items.filter((i) => i.category_id === (cat?.id ?? null));
+      const { data, error } = await supabase
+        .from("menu_items")
+        .insert({
+          name,
+          price,
+          category_id: cat?.id ?? null,
+          category: cat?.name ?? null,
+          sort_order: inCategory.reduce((m, i) => Math.max(m, i.sort_order), -1) + 1,
+          is_active: true,
+        })
+        .select("id")
+        .single();
+      if (error) throw new Error(error.message);
+
+      if (newItem.file) {
+        const url = await uploadImage(data.id, newItem.file);
+        const { error: imgErr } = await supabase.from("menu_items").update({ image_url: url }).eq("id", data.id);
+        if (imgErr) throw new Error(imgErr.message);
+      }
+      setNewItem(emptyDraft);
+    });
+
+  const startEdit = (i: Item) => {
+    setEditingId(i.id);
+    setEditDraft({ name: i.name, price: String(i.price), category_id: i.category_id ?? "", file: null });
+  };
+
+  const saveEdit = (i: Item) =>
+    run(async () => {
+      const { name, price } = checkDraft(editDraft);
+      const cat = categoryById.get(editDraft.category_id);
+      const patch: Partial<Item> = { name, price, category_id: cat?.id ?? null, category: cat?.name ?? null };
+      if (editDraft.file) patch.image_url = await uploadImage(i.id, editDraft.file);
+
+      const { error } = await supabase.from("menu_items").update(patch).eq("id", i.id);
+      if (error) throw new Error(error.message);
+      setEditingId(null);
+    });
+
+  const removeImage = (i: Item) =>
+    run(async () => {
+      const { error } = await supabase.from("menu_items").update({ image_url: null }).eq("id", i.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const toggleItem = (i: Item) =>
+    run(async () => {
+      const { error } = await supabase.from("menu_items").update({ is_active: !i.is_active }).eq("id", i.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const deleteItem = (i: Item) => {
+    const ok = window.confirm(`Delete ${i.name}? Items that were already sold can only be deactivated.`);
+    if (!ok) return;
+    run(async () => {
+      const { error } = await supabase.from("menu_items").delete().eq("id", i.id);
+      // 23503: still referenced by order_lines / inventory
+      if (error?.code === "23503") throw new Error(`${i.name} has sales or stock history. Deactivate it instead.`);
+      if (error) throw new Error(error.message);
+    });
+  };
+
+  const itemsByCategory = useMemo(() => {
+    const groups = categories.map((c) => ({ key: c.id, title: c.name, rows: items.filter((i) => i.category_id === c.id) }));
+    const orphans = items.filter((i) => !i.category_id || !categoryById.has(i.category_id));
+    if (orphans.length > 0) groups.push({ key: "none", title: "Uncategorized", rows: orphans });
+    return groups;
+  }, [categories, items, categoryById]);
+
+  if (loading) return <div style={{ padding: 16 }}>Loading menu…</div>;
+
+  const cell: React.CSSProperties = { borderBottom: "1px solid #222", padding: 6, verticalAlign: "middle" };
+
+  return (
+    <div style={{ padding: 16, display: "grid", gap: 16 }}>
+      {errorMsg && (
+        <div style={{ padding: 12, border: "1px solid #ff6b6b", borderRadius: 8 }}>
+          {errorMsg}
+        </div>
+      )}
+
+      {/* CATEGORIES */}
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>Categories</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 10 }}>
+          The cashier screen shows active categories in this order.
+        </div>
+
+        <div style={{ display: "grid", gap: 6 }}>
+          {categories.map((c, idx) => (
+            <div
+              key={c.id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                borderBottom: "1px dashed #333",
+                paddingBottom: 4,
+                opacity: c.is_active ? 1 : 0.5,
+              }}
+            >
+              <span style={{ fontWeight: 700 }}>
+                {c.name}
+                {c.is_active ? "" : " (hidden)"}
+              </span>
+              <span style={{ display: "flex", gap: 6 }}>
+                <button disabled={saving || idx === 0} onClick={() => moveCategory(idx, -1)}>
+                  ↑
+                </button>
+                <button disabled={saving || idx === categories.length - 1} onClick={() => moveCategory(idx, 1)}>
+                  ↓
+                </button>
+                <button disabled={saving} onClick={() => renameCategory(c)}>
+                  Rename
+                </button>
+                <button disabled={saving} onClick={() => toggleCategory(c)}>
+                  {c.is_active ? "Hide" : "Show"}
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+          <input
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            placeholder="New category (e.g. Drinks)"
+          />
+          <button disabled={saving} onClick={addCategory}>
+            Add Category
+          </button>
+        </div>
+      </div>
+
+      {/* NEW ITEM */}
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>Add Menu Item</div>
+        <div style={{ display: "grid", gap: 8, gridTemplateColumns: "2fr 1fr 2fr 2fr auto", alignItems: "end" }}>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Name</div>
+            <input
+              value={newItem.name}
+              onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
+              style={{ width: "100%" }}
+            />
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Price</div>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={newItem.price}
+              onChange={(e) => setNewItem({ ...newItem, price: e.target.value })}
+              style={{ width: "100%" }}
+            />
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Category</div>
+            <select
+              className="posSelect"
+              value={newItem.category_id}
+              onChange={(e) => setNewItem({ ...newItem, category_id: e.target.value })}
+              style={{ width: "100%" }}
+            >
+              <option value="">—</option>
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Image</div>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setNewItem({ ...newItem, file: e.target.files?.[0] ?? null })}
+            />
+          </label>
+          <button disabled={saving} onClick={addItem}>
+            Add Item
+          </button>
+        </div>
+      </div>
+
+      {/* ITEMS */}
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>Menu Items</div>
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <tbody>
+              {itemsByCategory.map((g) => (
+                <Fragment key={g.key}>
+                  <tr>
+                    <td colSpan={5} style={{ padding: "12px 6px 6px", fontWeight: 800 }}>
+                      {g.title} <span style={{ fontSize: 12, opacity: 0.6 }}>({g.rows.length})</span>
+                    </td>
+                  </tr>
+                  {g.rows.map((i) =>
+                    editingId === i.id ? (
+                      <tr key={i.id}>
+                        <td style={cell} colSpan={5}>
+                          <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+                            <input
+                              value={editDraft.name}
+                              onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })}
+                            />
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={editDraft.price}
+                              onChange={(e) => setEditDraft({ ...editDraft, price: e.target.value })}
+                              style={{ width: 100 }}
+                            />
+                            <select
+                              className="posSelect"
+                              value={editDraft.category_id}
+                              onChange={(e) => setEditDraft({ ...editDraft, category_id: e.target.value })}
+                            >
+                              <option value="">—</option>
+                              {categories.map((c) => (
+                                <option key={c.id} value={c.id}>
+                                  {c.name}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="file"
+                              accept="image/*"
+                              onChange={(e) => setEditDraft({ ...editDraft, file: e.target.files?.[0] ?? null })}
+                            />
+                            <button disabled={saving} onClick={() => saveEdit(i)}>
+                              Save
+                            </button>
+                            <button disabled={saving} onClick={() => setEditingId(null)}>
+                              Cancel
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ) : (
+                      <Fragment key={i.id}>
+                        <tr style={{ opacity: i.is_active ? 1 : 0.5 }}>
+                          <td style={{ ...cell, width: 56 }}>
+                            {i.image_url ? (
+                              <img
+                                src={i.image_url}
+                                alt={i.name}
+                                style={{ width: 44, height: 44, objectFit: "cover", borderRadius: 8 }}
+                              />
+                            ) : null}
+                          </td>
+                          <td style={{ ...cell, fontWeight: 700 }}>{i.name}</td>
+                          <td style={cell}>{fmtMoney(i.price)}</td>
+                          <td style={cell}>{i.is_active ? "Active" : "Inactive"}</td>
+                          <td style={{ ...cell, textAlign: "right", whiteSpace: "nowrap" }}>
+                            <span style={{ display: "inline-flex", gap: 6 }}>
+                              <button disabled={saving} onClick={() => startEdit(i)}>
+                                Edit
+                              </button>
+                              <button onClick={() => setHistoryId(historyId === i.id ? null : i.id)}>
+                                {historyId === i.id ? "Hide Prices" : "Prices"}
+                              </button>
+                              {i.image_url ? (
+                                <button disabled={saving} onClick={() => removeImage(i)}>
+                                  Remove Image
+                                </button>
+                              ) : null}
+                              <button disabled={saving} onClick={() => toggleItem(i)}>
+                                {i.is_active ? "Deactivate" : "Activate"}
+                              </button>
+                              <button disabled={saving} onClick={() => deleteItem(i)}>
+                                Delete
+                              </button>
+                            </span>
+                          </td>
+                        </tr>
+                        {historyId === i.id ? (
+                          <tr>
+                            <td style={cell} colSpan={5}>
+                              <PriceHistoryPanel item={i} onChanged={refresh} onError={setErrorMsg} />
+                            </td>
+                          </tr>
+                        ) : null}
+                      </Fragment>
+                    )
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <ModifiersPanel items={items} onError={setErrorMsg} />
+
+      <BranchPricingPanel items={items} onError={setErrorMsg} />
+
+      <OrderTypeFeesPanel onError={setErrorMsg} />
+    </div>
+  );
+}
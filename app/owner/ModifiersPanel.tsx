@@ -0,0 +1,394 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "../../lib/supabase";
+
+type GroupRow = { id: string; name: string; min_select: number; max_select: number; is_active: boolean };
+type OptionRow = { id: string; group_id: string; name: string; price_delta: number; sort_order: number; is_active: boolean };
+type LinkRow = { menu_item_id: string; group_id: string; sort_order: number };
+
+type GroupDraft = { name: string; min_select: string; max_select: string };
+type OptionDraft = { name: string; price_delta: string };
+
+type Props = {
+  items: { id: string; name: string }[];
+  onError: (msg: string) => void;
+};
+
+const emptyGroup: GroupDraft = { name: "", min_select: "0", max_select: "1" };
+const emptyOption: OptionDraft = { name: "", price_delta: "0" };
+
+function fmtDelta(n: number) {
+  const v = Number(n || 0);
+  return v === 0 ? "₱0.00" : `${v > 0 ? "+" : "−"}₱${Math.abs(v).toFixed(2)}`;
+}
+
+function checkGroup(d: GroupDraft) {
+  const min = Number(d.min_select);
+  const max = Number(d.max_select);
+  if (d.name.trim().length < 2) throw new Error("Enter a group name");
+  if (!Number.isInteger(min) || min < 0) throw new Error("Min must be 0 or more");
+  if (!Number.isInteger(max) || max < 1 || max < min) throw new Error("Max must be at least 1 and at least Min");
+  return { name: d.name.trim(), min_select: min, max_select: max };
+}
+
+function checkOption(d: OptionDraft) {
+  const delta = Number(d.price_delta);
+  if (d.name.trim().length < 1) throw new Error("Enter an option name");
+  if (d.price_delta.trim() === "" || !Number.isFinite(delta)) throw new Error("Enter the price change (0 for none)");
+  return { name: d.name.trim(), price_delta: Math.round(delta * 100) / 100 };
+}
+
+// Modifier groups (sizes, flavors, add-ons), their options, and which menu items offer them.
+export default function ModifiersPanel({ items, onError }: Props) {
+  const [groups, setGroups] = useState<GroupRow[]>([]);
+  const [options, setOptions] = useState<OptionRow[]>([]);
+  const [links, setLinks] = useState<LinkRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [newGroup, setNewGroup] = useState<GroupDraft>(emptyGroup);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [groupDraft, setGroupDraft] = useState<GroupDraft>(emptyGroup);
+  const [newOption, setNewOption] = useState<OptionDraft>(emptyOption);
+  const [optionDrafts, setOptionDrafts] = useState<Record<string, OptionDraft>>({});
+  const [attachItemId, setAttachItemId] = useState("");
+
+  const itemNameById = useMemo(() => new Map(items.map((i) => [i.id, i.name])), [items]);
+
+  async function load() {
+    const [{ data: g, error: gErr }, { data: o, error: oErr }, { data: l, error: lErr }] = await Promise.all([
+      supabase.from("modifier_groups").select("id,name,min_select,max_select,is_active").order("name"),
+      supabase
+        .from("modifier_options")
+        .select("id,group_id,name,price_delta,sort_order,is_active")
+        .order("sort_order")
+        .order("name"),
+      supabase.from("menu_item_modifier_groups").select("menu_item_id,group_id,sort_order"),
+    ]);
+    if (gErr) throw new Error(gErr.message);
+    if (oErr) throw new Error(oErr.message);
+    if (lErr) throw new Error(lErr.message);
+    setGroups((g ?? []) as GroupRow[]);
+    setOptions((o ?? []) as OptionRow[]);
+    setLinks((l ?? []) as LinkRow[]);
+  }
+
+  useEffect(() => {
+    load().catch((e) => onError(e instanceof Error ? e.message : "Failed to load modifiers"));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function run(fn: () => Promise<void>) {
+    setSaving(true);
+    onError("");
+    try {
+      await fn();
+      await load();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "Failed to save modifiers");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function openGroup(g: GroupRow) {
+    if (openId === g.id) return setOpenId(null);
+    setOpenId(g.id);
+    setGroupDraft({ name: g.name, min_select: String(g.min_select), max_select: String(g.max_select) });
+    setNewOption(emptyOption);
+    setOptionDrafts({});
+    setAttachItemId("");
+  }
+
+  // ---------- groups ----------
+  const addGroup = () =>
+    run(async () => {
+      const { error } = await supabase.from("modifier_groups").insert(checkGroup(newGroup));
+      if (error) throw new Error(error.message);
+      setNewGroup(emptyGroup);
+    });
+
+  const saveGroup = (g: GroupRow) =>
+    run(async () => {
+      const { error } = await supabase.from("modifier_groups").update(checkGroup(groupDraft)).eq("id", g.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const toggleGroup = (g: GroupRow) =>
+    run(async () => {
+      const { error } = await supabase.from("modifier_groups").update({ is_active: !g.is_active }).eq("id", g.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const deleteGroup = (g: GroupRow) => {
+    if (!window.confirm(`Delete "${g.name}" and its options? Items that offer it will stop showing it.`)) return;
+    // past orders keep their own snapshot of the options, so nothing else refers to the group
+    return run(async () => {
+      const { error } = await supabase.from("modifier_groups").delete().eq("id", g.id);
+      if (error) throw new Error(error.message);
+      setOpenId(null);
+    });
+  };
+
+  // ---------- options ----------
+  const optionDraftFor = (o: OptionRow) =>
+    optionDrafts[o.id] ?? { name: o.name, price_delta: String(Number(o.price_delta || 0)) };
+
+  const addOption = (groupId: string) =>
+    run(async () => {
+      const sortOrder = options.filter((o) => o.group_id === groupId).length;
+      const { error } = await supabase
+        .from("modifier_options")
+        .insert({ group_id: groupId, sort_order: sortOrder, ...checkOption(newOption) });
+      if (error) throw new Error(error.message);
+      setNewOption(emptyOption);
+    });
+
+  const saveOption = (o: OptionRow) =>
+    run(async () => {
+      const { error } = await supabase.from("modifier_options").update(checkOption(optionDraftFor(o))).eq("id", o.id);
+      if (error) throw new Error(error.message);
+      setOptionDrafts((cur) => {
+        const next = { ...cur };
+        delete next[o.id];
+        return next;
+      });
+    });
+
+  const toggleOption = (o: OptionRow) =>
+    run(async () => {
+      const { error } = await supabase.from("modifier_options").update({ is_active: !o.is_active }).eq("id", o.id);
+      if (error) throw new Error(error.message);
+    });
+
+  const deleteOption = (o: OptionRow) =>
+    run(async () => {
+      const { error } = await supabase.from("modifier_options").delete().eq("id", o.id);
+      if (error) throw new Error(error.message);
+    });
+
+  // ---------- menu items ----------
+  const attach = (groupId: string) =>
+    run(async () => {
+      if (!attachItemId) throw new Error("Pick a menu item");
+      // new groups go after the item's existing ones in the cashier picker
+      const sortOrder = links.filter((l) => l.menu_item_id === attachItemId).length;
+      const { error } = await supabase
+        .from("menu_item_modifier_groups")
+        .insert({ menu_item_id: attachItemId, group_id: groupId, sort_order: sortOrder });
+      if (error && error.code !== "23505") throw new Error(error.message);
+      setAttachItemId("");
+    });
+
+  const detach = (l: LinkRow) =>
+    run(async () => {
+      const { error } = await supabase
+        .from("menu_item_modifier_groups")
+        .delete()
+        .eq("menu_item_id", l.menu_item_id)
+        .eq("group_id", l.group_id);
+      if (error) throw new Error(error.message);
+    });
+
+  const row: React.CSSProperties = {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: 8,
+    alignItems: "center",
+    borderBottom: "1px dashed #333",
+    padding: "4px 0",
+  };
+
+  return (
+    <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12, display: "grid", gap: 12 }}>
+      <div>
+        <div style={{ fontWeight: 700 }}>Modifiers</div>
+        <div style={{ fontSize: 12, opacity: 0.7 }}>
+          Groups of options the cashier picks from (sizes, flavors, add-ons). Min 1 or more makes the group required.
+        </div>
+      </div>
+
+      <div style={{ display: "grid", gap: 8, gridTemplateColumns: "2fr 1fr 1fr auto", alignItems: "end" }}>
+        <label>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>Group name</div>
+          <input
+            value={newGroup.name}
+            onChange={(e) => setNewGroup({ ...newGroup, name: e.target.value })}
+            placeholder="Size"
+            style={{ width: "100%" }}
+          />
+        </label>
+        <label>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>Min</div>
+          <input
+            type="number"
+            min={0}
+            value={newGroup.min_select}
+            onChange={(e) => setNewGroup({ ...newGroup, min_select: e.target.value })}
+            style={{ width: "100%" }}
+          />
+        </label>
+        <label>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>Max</div>
+          <input
+            type="number"
+            min={1}
+            value={newGroup.max_select}
+            onChange={(e) => setNewGroup({ ...newGroup, max_select: e.target.value })}
+            style={{ width: "100%" }}
+          />
+        </label>
+        <button disabled={saving} onClick={addGroup}>
+          Add Group
+        </button>
+      </div>
+
+      {groups.length === 0 ? (
+        <div style={{ color: "#888" }}>No modifier groups yet.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 4 }}>
+          {groups.map((g) => {
+            const groupOptions = options.filter((o) => o.group_id === g.id);
+            const groupLinks = links.filter((l) => l.group_id === g.id);
+            const open = openId === g.id;
+            return (
+              <div key={g.id} style={{ borderBottom: "1px solid #222", paddingBottom: 6 }}>
+                <div style={{ ...row, borderBottom: "none", opacity: g.is_active ? 1 : 0.5 }}>
+                  <span style={{ flex: 1, fontWeight: 700 }}>
+                    {g.name}{" "}
+                    <span style={{ fontSize: 12, fontWeight: 400, opacity: 0.7 }}>
+                      {g.min_select > 0 ? "required" : "optional"} • pick up to {g.max_select} •{" "}
+                      {groupOptions.length} options • {groupLinks.length} items
+                    </span>
+                  </span>
+                  <button onClick={() => openGroup(g)}>{open ? "Close" : "Edit"}</button>
+                  <button disabled={saving} onClick={() => toggleGroup(g)}>
+                    {g.is_active ? "Disable" : "Enable"}
+                  </button>
+                  <button disabled={saving} onClick={() => deleteGroup(g)}>
+                    Delete
+                  </button>
+                </div>
+
+                {open ? (
+                  <div style={{ display: "grid", gap: 12, padding: "8px 0 4px 12px" }}>
+                    <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+                      <input
+                        value={groupDraft.name}
+                        onChange={(e) => setGroupDraft({ ...groupDraft, name: e.target.value })}
+                      />
+                      <span style={{ fontSize: 12, opacity: 0.7 }}>Min</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={groupDraft.min_select}
+                        onChange={(e) => setGroupDraft({ ...groupDraft, min_select: e.target.value })}
+                        style={{ width: 70 }}
+                      />
+                      <span style={{ fontSize: 12, opacity: 0.7 }}>Max</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={groupDraft.max_select}
+                        onChange={(e) => setGroupDraft({ ...groupDraft, max_select: e.target.value })}
+                        style={{ width: 70 }}
+                      />
+                      <button disabled={saving} onClick={() => saveGroup(g)}>
+                        Save Group
+                      </button>
+                    </div>
+
+                    {/* OPTIONS */}
+                    <div>
+                      <div style={{ fontWeight: 800, marginBottom: 4 }}>Options</div>
+                      {groupOptions.map((o) => {
+                        const d = optionDraftFor(o);
+                        const set = (patch: Partial<OptionDraft>) =>
+                          setOptionDrafts({ ...optionDrafts, [o.id]: { ...d, ...patch } });
+                        return (
+                          <div key={o.id} style={{ ...row, opacity: o.is_active ? 1 : 0.5 }}>
+                            <input value={d.name} onChange={(e) => set({ name: e.target.value })} />
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={d.price_delta}
+                              onChange={(e) => set({ price_delta: e.target.value })}
+                              style={{ width: 100 }}
+                            />
+                            <span style={{ fontSize: 12, opacity: 0.7 }}>{fmtDelta(o.price_delta)}</span>
+                            <button disabled={saving} onClick={() => saveOption(o)}>
+                              Save
+                            </button>
+                            <button disabled={saving} onClick={() => toggleOption(o)}>
+                              {o.is_active ? "Disable" : "Enable"}
+                            </button>
+                            <button disabled={saving} onClick={() => deleteOption(o)}>
+                              Delete
+                            </button>
+                          </div>
+                        );
+                      })}
+                      <div style={{ ...row, borderBottom: "none" }}>
+                        <input
+                          value={newOption.name}
+                          onChange={(e) => setNewOption({ ...newOption, name: e.target.value })}
+                          placeholder="Large"
+                        />
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={newOption.price_delta}
+                          onChange={(e) => setNewOption({ ...newOption, price_delta: e.target.value })}
+                          style={{ width: 100 }}
+                        />
+                        <button disabled={saving} onClick={() => addOption(g.id)}>
+                          Add Option
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* MENU ITEMS */}
+                    <div>
+                      <div style={{ fontWeight: 800, marginBottom: 4 }}>Offered on</div>
+                      {groupLinks.length === 0 ? (
+                        <div style={{ color: "#888" }}>Not on any menu item yet.</div>
+                      ) : (
+                        groupLinks.map((l) => (
+                          <div key={l.menu_item_id} style={row}>
+                            <span style={{ flex: 1 }}>{itemNameById.get(l.menu_item_id) ?? l.menu_item_id}</span>
+                            <button disabled={saving} onClick={() => detach(l)}>
+                              Remove
+                            </button>
+                          </div>
+                        ))
+                      )}
+                      <div style={{ ...row, borderBottom: "none" }}>
+                        <select
+                          className="posSelect"
+                          value={attachItemId}
+                          onChange={(e) => setAttachItemId(e.target.value)}
+                        >
+                          <option value="">—</option>
+                          {items
+                            .filter((i) => !groupLinks.some((l) => l.menu_item_id === i.id))
+                            .map((i) => (
+                              <option key={i.id} value={i.id}>
+                                {i.name}
+                              </option>
+                            ))}
+                        </select>
+                        <button disabled={saving} onClick={() => attach(g.id)}>
+                          Add to Item
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { ORDER_TYPE_LABELS, type OrderType, type OrderTypeFee } from "@/lib/pricing";
+
+type Draft = { label: string; amount: string; per_item: boolean };
+
+type Props = {
+  onError: (msg: string) => void;
+};
+
+// Fee added per order type (e.g. take-out packaging), after discounts.
+export default function OrderTypeFeesPanel({ onError }: Props) {
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [saving, setSaving] = useState(false);
+
+  async function load() {
+    const { data, error } = await supabase.from("order_type_fees").select("order_type,label,amount,per_item");
+    if (error) throw new Error(error.message);
+    setDrafts(
+      Object.fromEntries(
+        ((data ?? []) as OrderTypeFee[]).map((f) => [
+          f.order_type,
+          { label: f.label, amount: String(Number(f.amount || 0)), per_item: f.per_item },
+        ])
+      )
+    );
+  }
+
+  useEffect(() => {
+    load().catch((e) => onError(e instanceof Error ? e.message : "Failed to load order type fees"));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function save(type: OrderType) {
+    const d = drafts[type] ?? { label: "Fee", amount: "0", per_item: false };
+    setSaving(true);
+    onError("");
+    try {
+      const amount = Number(d.amount);
+      if (d.amount.trim() === "" || !Number.isFinite(amount) || amount < 0) throw new Error("Fee must be 0 or more");
+      if (d.label.trim().length < 2) throw new Error("Enter a fee label");
+
+      const { error } = await supabase.from("order_type_fees").upsert({
+        order_type: type,
+        label: d.label.trim(),
+        amount: Math.round(amount * 100) / 100,
+        per_item: d.per_item,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw new Error(error.message);
+      await load();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "Failed to save fee");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 8 }}>Order Type Fees</div>
+      <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 10 }}>
+        Added on top of the order after discounts. Set 0 for no fee.
+      </div>
+
+      <div style={{ display: "grid", gap: 8 }}>
+        {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map((t) => {
+          const d = drafts[t] ?? { label: "Fee", amount: "0", per_item: false };
+          const set = (patch: Partial<Draft>) => setDrafts({ ...drafts, [t]: { ...d, ...patch } });
+          return (
+            <div key={t} style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+              <span style={{ width: 90, fontWeight: 700 }}>{ORDER_TYPE_LABELS[t]}</span>
+              <input value={d.label} onChange={(e) => set({ label: e.target.value })} placeholder="Fee label" />
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={d.amount}
+                onChange={(e) => set({ amount: e.target.value })}
+                style={{ width: 100 }}
+              />
+              <label style={{ fontSize: 13 }}>
+                <input type="checkbox" checked={d.per_item} onChange={(e) => set({ per_item: e.target.checked })} /> per
+                item
+              </label>
+              <button disabled={saving} onClick={() => save(t)}>
+                Save
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
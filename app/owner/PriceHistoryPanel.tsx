@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { phDateTimeToUtcIso, phTodayYMD } from "@/lib/phTime";
+
+type PriceChange = {
+  id: string;
+  old_price: number | null;
+  new_price: number;
+  effective_from: string;
+  applied_at: string | null;
+  created_at: string;
+};
+
+type Props = {
+  item: { id: string; name: string; price: number };
+  onChanged: () => Promise<void>;
+  onError: (msg: string) => void;
+};
+
+function fmtMoney(n: number | null) {
+  return n == null ? "—" : `₱${Number(n).toFixed(2)}`;
+}
+
+function fmtPh(iso: string) {
+  return new Date(iso).toLocaleString("en-PH", { timeZone: "Asia/Manila" });
+}
+
+// One item's price history plus scheduling of future price changes (PH time).
+export default function PriceHistoryPanel({ item, onChanged, onError }: Props) {
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [newPrice, setNewPrice] = useState("");
+  const [date, setDate] = useState(phTodayYMD());
+  const [time, setTime] = useState("00:00");
+  const [saving, setSaving] = useState(false);
+
+  async function load() {
+    const { data, error } = await supabase
+      .from("menu_price_changes")
+      .select("id,old_price,new_price,effective_from,applied_at,created_at")
+      .eq("menu_item_id", item.id)
+      .order("effective_from", { ascending: false })
+      .order("created_at", { ascending: false });
+    if (error) throw new Error(error.message);
+    setChanges((data ?? []) as PriceChange[]);
+  }
+
+  useEffect(() => {
+    load().catch((e) => onError(e instanceof Error ? e.message : "Failed to load price history"));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [item.id]);
+
+  async function run(fn: () => Promise<void>) {
+    setSaving(true);
+    onError("");
+    try {
+      await fn();
+      await load();
+      await onChanged();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "Failed to save price change");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const schedule = () =>
+    run(async () => {
+      const price = Number(newPrice);
+      if (newPrice.trim() === "" || !Number.isFinite(price) || price < 0) throw new Error("Price must be 0 or more");
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{2}:\d{2}$/.test(time)) throw new Error("Pick a date and time");
+
+      const effectiveFrom = phDateTimeToUtcIso(date, time);
+      if (Date.parse(effectiveFrom) <= Date.now()) {
+        throw new Error("Effective time has passed. Edit the item to change its price now.");
+      }
+      const { error } = await supabase.from("menu_price_changes").insert({
+        menu_item_id: item.id,
+        new_price: Math.round(price * 100) / 100,
+        effective_from: effectiveFrom,
+      });
+      if (error) throw new Error(error.message);
+      setNewPrice("");
+    });
+
+  const cancel = (c: PriceChange) => {
+    if (!window.confirm(`Cancel the change to ${fmtMoney(c.new_price)} on ${fmtPh(c.effective_from)}?`)) return;
+    return run(async () => {
+      const { error } = await supabase.from("menu_price_changes").delete().eq("id", c.id).is("applied_at", null);
+      if (error) throw new Error(error.message);
+    });
+  };
+
+  const cell: React.CSSProperties = { borderBottom: "1px solid #222", padding: 6 };
+
+  return (
+    <div style={{ display: "grid", gap: 10, padding: 8, background: "rgba(255,255,255,0.03)", borderRadius: 8 }}>
+      <div style={{ fontWeight: 700 }}>
+        {item.name} — now {fmtMoney(item.price)}
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "end" }}>
+        <label>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>New price</div>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={newPrice}
+            onChange={(e) => setNewPrice(e.target.value)}
+            style={{ width: 100 }}
+          />
+        </label>
+        <label>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>Effective (PH date)</div>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </label>
+        <label>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>Time</div>
+          <input type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+        </label>
+        <button disabled={saving} onClick={schedule}>
+          Schedule
+        </button>
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: "left" }}>Effective (PH)</th>
+            <th style={{ ...cell, textAlign: "left" }}>From</th>
+            <th style={{ ...cell, textAlign: "left" }}>To</th>
+            <th style={{ ...cell, textAlign: "left" }}>Status</th>
+            <th style={cell} />
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map((c) => (
+            <tr key={c.id}>
+              <td style={cell}>{fmtPh(c.effective_from)}</td>
+              <td style={cell}>{fmtMoney(c.old_price)}</td>
+              <td style={{ ...cell, fontWeight: 700 }}>{fmtMoney(c.new_price)}</td>
+              <td style={cell}>{c.applied_at ? "Applied" : "Scheduled"}</td>
+              <td style={{ ...cell, textAlign: "right" }}>
+                {c.applied_at ? null : (
+                  <button disabled={saving} onClick={() => cancel(c)}>
+                    Cancel
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {changes.length === 0 ? (
+            <tr>
+              <td style={cell} colSpan={5}>
+                No price history yet.
+              </td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  );
+}
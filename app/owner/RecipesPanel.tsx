@@ -0,0 +1,308 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { BASE_UNITS, fmtQty, toBaseQty, unitsFor, type BaseUnit, type IngredientUnit } from "@/lib/units";
+
+export type Ingredient = {
+  id: string;
+  name: string;
+  base_unit: BaseUnit;
+  low_stock_at: number;
+  is_active: boolean;
+};
+
+export type RecipeRow = {
+  menu_item_id: string;
+  ingredient_id: string;
+  qty: number; // base units per 1 menu item
+};
+
+type Props = {
+  menu: { id: string; name: string }[];
+  ingredients: Ingredient[];
+  units: IngredientUnit[];
+  recipes: RecipeRow[];
+  onChanged: () => Promise<void>;
+  onError: (msg: string) => void;
+};
+
+// Ingredient catalog, pack sizes and per-menu-item recipes.
+export default function RecipesPanel({ menu, ingredients, units, recipes, onChanged, onError }: Props) {
+  const [newName, setNewName] = useState("");
+  const [newBaseUnit, setNewBaseUnit] = useState<BaseUnit>("g");
+  const [newLowStock, setNewLowStock] = useState<number>(0);
+
+  const [packIngredientId, setPackIngredientId] = useState("");
+  const [packUnit, setPackUnit] = useState("");
+  const [packFactor, setPackFactor] = useState<number>(1);
+
+  const [recipeItemId, setRecipeItemId] = useState(menu[0]?.id ?? "");
+  const [recipeIngredientId, setRecipeIngredientId] = useState("");
+  const [recipeQty, setRecipeQty] = useState<number>(1);
+  const [recipeUnit, setRecipeUnit] = useState("");
+
+  const ingredientById = useMemo(() => new Map(ingredients.map((i) => [i.id, i])), [ingredients]);
+
+  const recipeIngredient = ingredientById.get(recipeIngredientId);
+  const recipeUnitOptions = recipeIngredient ? unitsFor(recipeIngredient.id, recipeIngredient.base_unit, units) : [];
+
+  const recipeForItem = useMemo(
+    () => recipes.filter((r) => r.menu_item_id === recipeItemId),
+    [recipes, recipeItemId]
+  );
+
+  async function run(fn: () => Promise<void>) {
+    onError("");
+    try {
+      await fn();
+      await onChanged();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "Failed to save");
+    }
+  }
+
+  const addIngredient = () =>
+    run(async () => {
+      if (newName.trim().length < 2) throw new Error("Enter an ingredient name");
+      const { error } = await supabase
+        .from("ingredients")
+        .insert({ name: newName.trim(), base_unit: newBaseUnit, low_stock_at: Number(newLowStock || 0) });
+      if (error) throw new Error(error.message);
+      setNewName("");
+      setNewLowStock(0);
+    });
+
+  const addPackSize = () =>
+    run(async () => {
+      if (!packIngredientId) throw new Error("Pick an ingredient");
+      if (packUnit.trim().length < 1) throw new Error("Enter a unit name (e.g. pack, sack)");
+      if (!packFactor || packFactor <= 0) throw new Error("Size must be > 0");
+      const { error } = await supabase
+        .from("ingredient_units")
+        .upsert({ ingredient_id: packIngredientId, unit: packUnit.trim(), factor: Number(packFactor) });
+      if (error) throw new Error(error.message);
+      setPackUnit("");
+      setPackFactor(1);
+    });
+
+  const saveRecipeRow = () =>
+    run(async () => {
+      if (!recipeItemId || !recipeIngredient) throw new Error("Pick a menu item and an ingredient");
+      const unit = recipeUnit || recipeIngredient.base_unit;
+      const qty = toBaseQty(Number(recipeQty), unit, recipeUnitOptions);
+      if (qty === null || qty <= 0) throw new Error("Qty must be > 0");
+      const { error } = await supabase
+        .from("menu_item_recipes")
+        .upsert({ menu_item_id: recipeItemId, ingredient_id: recipeIngredient.id, qty });
+      if (error) throw new Error(error.message);
+    });
+
+  const removeRecipeRow = (r: RecipeRow) =>
+    run(async () => {
+      const { error } = await supabase
+        .from("menu_item_recipes")
+        .delete()
+        .eq("menu_item_id", r.menu_item_id)
+        .eq("ingredient_id", r.ingredient_id);
+      if (error) throw new Error(error.message);
+    });
+
+  return (
+    <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12, display: "grid", gap: 16 }}>
+      <div style={{ fontWeight: 700 }}>Ingredients &amp; Recipes</div>
+
+      {/* CATALOG */}
+      <div>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Ingredients</div>
+        <div style={{ display: "grid", gap: 8, gridTemplateColumns: "2fr 1fr 1fr auto", alignItems: "end" }}>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Name</div>
+            <input value={newName} onChange={(e) => setNewName(e.target.value)} style={{ width: "100%" }} />
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Base unit</div>
+            <select
+              className="posSelect"
+              value={newBaseUnit}
+              onChange={(e) => setNewBaseUnit(e.target.value as BaseUnit)}
+              style={{ width: "100%" }}
+            >
+              {BASE_UNITS.map((u) => (
+                <option key={u} value={u}>
+                  {u}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Low stock at</div>
+            <input
+              type="number"
+              value={newLowStock}
+              onChange={(e) => setNewLowStock(Number(e.target.value))}
+              style={{ width: "100%" }}
+            />
+          </label>
+          <button onClick={addIngredient}>Add Ingredient</button>
+        </div>
+
+        <div style={{ display: "grid", gap: 8, gridTemplateColumns: "2fr 1fr 1fr auto", alignItems: "end", marginTop: 8 }}>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Pack size for</div>
+            <select
+              className="posSelect"
+              value={packIngredientId}
+              onChange={(e) => setPackIngredientId(e.target.value)}
+              style={{ width: "100%" }}
+            >
+              <option value="">—</option>
+              {ingredients.map((i) => (
+                <option key={i.id} value={i.id}>
+                  {i.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Unit</div>
+            <input
+              value={packUnit}
+              onChange={(e) => setPackUnit(e.target.value)}
+              placeholder="pack"
+              style={{ width: "100%" }}
+            />
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>
+              = {ingredientById.get(packIngredientId)?.base_unit ?? "base units"}
+            </div>
+            <input
+              type="number"
+              value={packFactor}
+              onChange={(e) => setPackFactor(Number(e.target.value))}
+              style={{ width: "100%" }}
+            />
+          </label>
+          <button onClick={addPackSize}>Save Pack Size</button>
+        </div>
+
+        <div style={{ display: "grid", gap: 4, marginTop: 10 }}>
+          {ingredients.map((i) => {
+            const packs = units.filter((u) => u.ingredient_id === i.id);
+            return (
+              <div
+                key={i.id}
+                style={{ display: "flex", justifyContent: "space-between", borderBottom: "1px dashed #333", paddingBottom: 4 }}
+              >
+                <span>
+                  {i.name} <span style={{ opacity: 0.6 }}>({i.base_unit})</span>
+                </span>
+                <span style={{ fontSize: 12, opacity: 0.7 }}>
+                  {packs.map((u) => `1 ${u.unit} = ${fmtQty(u.factor, i.base_unit)}`).join(" • ")}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* RECIPES */}
+      <div>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Recipe per menu item</div>
+        <div style={{ display: "grid", gap: 8, gridTemplateColumns: "2fr 2fr 1fr 1fr auto", alignItems: "end" }}>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Menu item</div>
+            <select
+              className="posSelect"
+              value={recipeItemId}
+              onChange={(e) => setRecipeItemId(e.target.value)}
+              style={{ width: "100%" }}
+            >
+              {menu.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Ingredient</div>
+            <select
+              className="posSelect"
+              value={recipeIngredientId}
+              onChange={(e) => {
+                setRecipeIngredientId(e.target.value);
+                setRecipeUnit("");
+              }}
+              style={{ width: "100%" }}
+            >
+              <option value="">—</option>
+              {ingredients
+                .filter((i) => i.is_active)
+                .map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Qty</div>
+            <input
+              type="number"
+              value={recipeQty}
+              onChange={(e) => setRecipeQty(Number(e.target.value))}
+              style={{ width: "100%" }}
+            />
+          </label>
+          <label>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>Unit</div>
+            <select
+              className="posSelect"
+              value={recipeUnit || recipeIngredient?.base_unit || ""}
+              onChange={(e) => setRecipeUnit(e.target.value)}
+              style={{ width: "100%" }}
+            >
+              {recipeUnitOptions.map((u) => (
+                <option key={u.unit} value={u.unit}>
+                  {u.unit}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button onClick={saveRecipeRow}>Save</button>
+        </div>
+
+        {recipeForItem.length === 0 ? (
+          <div style={{ color: "#888", marginTop: 10 }}>
+            No recipe — this item deducts its own stock when sold.
+          </div>
+        ) : (
+          <div style={{ display: "grid", gap: 4, marginTop: 10 }}>
+            {recipeForItem.map((r) => {
+              const ing = ingredientById.get(r.ingredient_id);
+              return (
+                <div
+                  key={r.ingredient_id}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    borderBottom: "1px dashed #333",
+                    padding: "4px 0",
+                  }}
+                >
+                  <span>
+                    {ing?.name ?? r.ingredient_id} — {fmtQty(r.qty, ing?.base_unit ?? "")}
+                  </span>
+                  <button onClick={() => removeRecipeRow(r)}>Remove</button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { getMyProfile } from "@/lib/getMyProfile";
+import { addDaysYMD, businessDayToUtcIso, phDateTimeToUtcIso, phTodayYMD } from "@/lib/phTime";
+import { dayCutoffOf, latestDayCutoff, type BranchSettings } from "@/lib/branchSettings";
+import type { ShiftRow } from "@/lib/zReport";
+
+type Branch = { id: string; name: string };
+
+function fmtMoney(n: number | null | undefined) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+function fmtTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-PH", { timeZone: "Asia/Manila" }) : "—";
+}
+
+export default function ShiftsTab() {
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState("");
+
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchFilter, setBranchFilter] = useState("ALL");
+  // today's business date, once the branch cutoffs are loaded
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [settings, setSettings] = useState<BranchSettings[]>([]);
+
+  const [shifts, setShifts] = useState<ShiftRow[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const branchNameById = useMemo(() => new Map(branches.map((b) => [b.id, b.name])), [branches]);
+
+  // a shift belongs to the business day it was opened in, by its own branch's cutoff
+  async function loadShifts(startYmd: string, endYmd: string, s: BranchSettings[] = settings) {
+    // cutoffs are always before noon, so this covers every branch's days in range
+    const { data, error } = await supabase
+      .from("cashier_shifts")
+      .select("*")
+      .gte("opened_at", phDateTimeToUtcIso(startYmd, "00:00"))
+      .lt("opened_at", phDateTimeToUtcIso(addDaysYMD(endYmd, 1), "12:00"))
+      .order("opened_at", { ascending: false });
+    if (error) throw new Error(error.message);
+    setShifts(
+      ((data ?? []) as ShiftRow[]).filter((x) => {
+        const cutoff = dayCutoffOf(s, x.branch_id);
+        const opened = Date.parse(x.opened_at);
+        return (
+          opened >= Date.parse(businessDayToUtcIso(startYmd, cutoff).startUtc) &&
+          opened < Date.parse(businessDayToUtcIso(endYmd, cutoff).endUtc)
+        );
+      })
+    );
+  }
+
+  useEffect(() => {
+    (async () => {
+      setLoading(true);
+      setErrorMsg("");
+      try {
+        const prof = await getMyProfile();
+        if (prof.role !== "owner") throw new Error("Not an owner account.");
+
+        const { data: b, error: bErr } = await supabase.from("branches").select("id,name").order("name");
+        if (bErr) throw new Error(bErr.message);
+        setBranches((b ?? []) as Branch[]);
+
+        const { data: bs, error: bsErr } = await supabase.from("branch_settings").select("branch_id,business_day_cutoff");
+        if (bsErr) throw new Error(bsErr.message);
+        const s = (bs ?? []) as BranchSettings[];
+        setSettings(s);
+        const today = phTodayYMD(latestDayCutoff(s));
+        setStartDate(today);
+        setEndDate(today);
+
+        await loadShifts(today, today, s);
+      } catch (e) {
+        setErrorMsg(e instanceof Error ? e.message : "Failed to load shifts");
+      } finally {
+        setLoading(false);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function applyRange() {
+    setErrorMsg("");
+    try {
+      await loadShifts(startDate, endDate);
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to load shifts");
+    }
+  }
+
+  const visible = useMemo(
+    () => (branchFilter === "ALL" ? shifts : shifts.filter((s) => s.branch_id === branchFilter)),
+    [shifts, branchFilter]
+  );
+
+  const totalOverShort = useMemo(
+    () => visible.reduce((s, x) => s + Number(x.over_short || 0), 0),
+    [visible]
+  );
+
+  if (loading) return <div style={{ padding: 16 }}>Loading shifts…</div>;
+
+  const cell: React.CSSProperties = { borderBottom: "1px solid #222", padding: 6 };
+  const head: React.CSSProperties = { borderBottom: "1px solid #333", padding: 6 };
+
+  return (
+    <div style={{ padding: 16, display: "grid", gap: 16 }}>
+      {errorMsg && (
+        <div style={{ padding: 12, border: "1px solid #ff6b6b", borderRadius: 8 }}>
+          {errorMsg}
+        </div>
+      )}
+
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>Cashier Shifts</div>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "center" }}>
+          <select value={branchFilter} onChange={(e) => setBranchFilter(e.target.value)}>
+            <option value="ALL">All branches</option>
+            {branches.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>From</span>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </label>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>To</span>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </label>
+          <button onClick={applyRange}>Load Shifts</button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+          {visible.length} shifts • {visible.filter((s) => !s.closed_at).length} still open • Net over/short{" "}
+          {fmtMoney(totalOverShort)}
+        </div>
+      </div>
+
+      <div style={{ border: "1px solid #333", borderRadius: 12, padding: 12 }}>
+        {visible.length === 0 ? (
+          <div style={{ color: "#888" }}>No shifts in range.</div>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ textAlign: "left" }}>
+                  <th style={head}>Branch</th>
+                  <th style={head}>Cashier</th>
+                  <th style={head}>Opened</th>
+                  <th style={head}>Closed</th>
+                  <th style={head}>Expected</th>
+                  <th style={head}>Counted</th>
+                  <th style={head}>Over / Short</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((s) => {
+                  const r = s.report;
+                  const os = Number(s.over_short || 0);
+                  return (
+                    <Fragment key={s.id}>
+                      <tr
+                        onClick={() => setExpandedId(expandedId === s.id ? null : s.id)}
+                        style={{ cursor: r ? "pointer" : "default" }}
+                      >
+                        <td style={cell}>{branchNameById.get(s.branch_id) ?? s.branch_id}</td>
+                        <td style={cell}>{s.cashier_id.slice(0, 8)}</td>
+                        <td style={cell}>{fmtTime(s.opened_at)}</td>
+                        <td style={cell}>{s.closed_at ? fmtTime(s.closed_at) : "OPEN"}</td>
+                        <td style={cell}>{s.closed_at ? fmtMoney(s.expected_cash) : "—"}</td>
+                        <td style={cell}>{s.closed_at ? fmtMoney(s.counted_cash) : "—"}</td>
+                        <td
+                          style={{
+                            ...cell,
+                            fontWeight: 700,
+                            color: os < 0 ? "#ff8a8a" : os > 0 ? "#ffd166" : undefined,
+                          }}
+                        >
+                          {s.closed_at ? `${os < 0 ? "Short " : os > 0 ? "Over " : ""}${fmtMoney(Math.abs(os))}` : "—"}
+                        </td>
+                      </tr>
+                      {r && expandedId === s.id ? (
+                        <tr>
+                          <td colSpan={7} style={{ ...cell, background: "rgba(255,255,255,0.03)" }}>
+                            <div style={{ display: "flex", flexWrap: "wrap", gap: 16, fontSize: 13 }}>
+                              <span>Orders: {r.order_count}</span>
+                              <span>Gross: {fmtMoney(r.gross_sales)}</span>
+                              <span>Cash: {fmtMoney(r.cash_sales)}</span>
+                              <span>GCash: {fmtMoney(r.gcash_sales)}</span>
+                              <span>
+                                Voids: {r.void_count} ({fmtMoney(r.void_total)})
+                              </span>
+                              <span>Float: {fmtMoney(r.opening_float)}</span>
+                              <span>Cash in: {fmtMoney(r.cash_in)}</span>
+                              <span>Cash out: {fmtMoney(r.cash_out)}</span>
+                            </div>
+                          </td>
+                        </tr>
+                      ) : null}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
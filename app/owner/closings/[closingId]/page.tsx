@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import styles from "./closing.module.css";
+import { supabase } from "@/lib/supabase";
+import { fmtInvoiceNo, fmtReceiptTime } from "@/lib/receipt";
+import type { EodClosingRow } from "@/lib/eodReport";
+
+function fmtMoney(n: number) {
+  return `₱${Number(n || 0).toFixed(2)}`;
+}
+
+// Printable Z-reading. Everything shown comes from the frozen report, never from live orders.
+export default function ClosingPage() {
+  const { closingId } = useParams<{ closingId: string }>();
+  const [closing, setClosing] = useState<EodClosingRow | null>(null);
+  const [branchName, setBranchName] = useState("");
+  const [errorMsg, setErrorMsg] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase.from("eod_closings").select("*").eq("id", closingId).maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new Error("Closing not found");
+      const { data: b } = await supabase.from("branches").select("name").eq("id", data.branch_id).maybeSingle();
+      setBranchName(b?.name ?? "");
+      setClosing(data as EodClosingRow);
+    })().catch((e) => setErrorMsg(e?.message || "Failed to load closing"));
+  }, [closingId]);
+
+  const r = closing?.report;
+  const row = (label: string, value: string) => (
+    <div className={styles.row}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.actions}>
+        <button className={styles.btn} onClick={() => window.print()} disabled={!closing}>
+          Print
+        </button>
+        <button className={styles.btn} onClick={() => window.close()}>
+          Close
+        </button>
+      </div>
+
+      {errorMsg ? (
+        <div className={styles.error}>Error: {errorMsg}</div>
+      ) : !closing || !r ? (
+        <div className={styles.paper}>Loading closing…</div>
+      ) : (
+        <div className={styles.paper}>
+          <div className={styles.center}>
+            <div className={styles.title}>SUPERBECKS</div>
+            <div style={{ fontWeight: 700 }}>{branchName}</div>
+            <div style={{ fontWeight: 700 }}>Z-READING</div>
+            <div>Business date {r.business_date}</div>
+            <div>Closed {fmtReceiptTime(r.closed_at)}</div>
+          </div>
+
+          <hr className={styles.rule} />
+          {row("Beginning SI No.", fmtInvoiceNo(r.first_invoice_no))}
+          {row("Ending SI No.", fmtInvoiceNo(r.last_invoice_no))}
+          {row("Paid orders", String(r.order_count))}
+
+          <hr className={styles.rule} />
+          {row("Gross sales", fmtMoney(r.gross_sales))}
+          {row("Less SC/PWD discount", `−${fmtMoney(r.discount_sc_pwd)}`)}
+          {row("Less other discounts", `−${fmtMoney(r.discount_other)}`)}
+          {row(`Less voids (${r.void_count})`, `−${fmtMoney(r.void_total)}`)}
+          <div className={`${styles.row} ${styles.total}`}>
+            <span>NET SALES</span>
+            <span>{fmtMoney(r.net_sales)}</span>
+          </div>
+
+          <hr className={styles.rule} />
+          {row("VATable sales", fmtMoney(r.vatable_sales))}
+          {row("VAT (12%)", fmtMoney(r.vat_amount))}
+          {row("VAT-exempt sales", fmtMoney(r.vat_exempt_sales))}
+          {row("Zero-rated sales", fmtMoney(r.zero_rated_sales))}
+
+          <hr className={styles.rule} />
+          {row("Cash", fmtMoney(r.cash_sales))}
+          {row("GCash", fmtMoney(r.gcash_sales))}
+          {row("Delivery platform", fmtMoney(r.platform_sales))}
+
+          {r.voids.length > 0 ? (
+            <>
+              <hr className={styles.rule} />
+              <div className={styles.heading}>Voids</div>
+              {r.voids.map((v) => (
+                <div key={v.order_id}>
+                  {row(
+                    v.invoice_no == null ? `Order #${v.order_no ?? "—"}` : `SI ${fmtInvoiceNo(v.invoice_no)}`,
+                    fmtMoney(v.amount)
+                  )}
+                  <div className={styles.sub}>
+                    {fmtReceiptTime(v.voided_at)}
+                    {v.business_date && v.business_date !== r.business_date ? ` • sold ${v.business_date}` : ""}
+                  </div>
+                  {v.reason ? <div className={styles.sub}>{v.reason}</div> : null}
+                </div>
+              ))}
+            </>
+          ) : null}
+
+          <hr className={styles.rule} />
+          {row("Previous grand total", fmtMoney(r.old_grand_total))}
+          <div className={`${styles.row} ${styles.total}`}>
+            <span>GRAND TOTAL</span>
+            <span>{fmtMoney(r.new_grand_total)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,16 @@ import { supabase } from "../../lib/supabase";
 import "./ui.css";
 import { confirmAndLogout } from "@/lib/logout";
 import InventoryTab from "./InventoryTab";
+import GcashReconTab from "./GcashReconTab";
+import ShiftsTab from "./ShiftsTab";
+import ClosingsTab from "./ClosingsTab";
+import MenuTab from "./MenuTab";
+import { phStartOfMonthYMD, phStartOfWeekYMD, phTodayYMD } from "@/lib/phTime";
+import { DEFAULT_DAY_CUTOFF, latestDayCutoff, type BranchSettings } from "@/lib/branchSettings";
+import { describeOrderType, netLineAmount, ORDER_TYPE_LABELS, type DiscountKind, type OrderType } from "@/lib/pricing";
+import { describeModifiers, type LineModifier } from "@/lib/modifiers";
+import { fmtDuration, ticketSeconds } from "@/lib/kitchen";
+import { fmtInvoiceNo } from "@/lib/receipt";
 
 
 type Branch = { id: string; name: string };
@@ -15,13 +25,44 @@ type Order = {
   id: string;
   branch_id: string;
   created_at: string;
-  payment_type: "CASH" | "GCASH";
+  payment_type: "CASH" | "GCASH" | "SPLIT" | "PLATFORM";
   total_amount: number;
   status?: string | null;
 
     // ✅ add these
   order_no?: string | number | null;        // bigint comes back as number or string depending on config
   business_date?: string | null;   // date as "YYYY-MM-DD"
+
+  subtotal_amount?: number | null; // before the order-level discount
+  discount_type?: DiscountKind | null;
+  discount_amount?: number | null;
+  discount_id_no?: string | null;
+
+  order_type?: OrderType | null; // null = before order types existed
+  table_no?: string | null;
+  platform?: string | null;
+  platform_ref?: string | null;
+  fee_label?: string | null;
+  fee_amount?: number | null; // order-type fee, on top of the discounted subtotal
+  platform_commission?: number | null; // delivery-platform orders: what the platform keeps
+
+  invoice_no?: number | null; // BIR sales invoice no., per branch; kept when voided
+  vatable_sales?: number | null;
+  vat_amount?: number | null;
+  vat_exempt_sales?: number | null;
+  zero_rated_sales?: number | null;
+
+  kitchen_queued_at?: string | null; // paid -> kitchen queue
+  kitchen_ready_at?: string | null;
+
+  review_note?: string | null; // offline sale recorded at prices the menu no longer had
+};
+
+type Payment = {
+  order_id: string;
+  method: "CASH" | "GCASH" | "PLATFORM";
+  amount: number;
+  reference: string | null;
 };
 
 type Line = {
@@ -29,6 +70,9 @@ type Line = {
   menu_item_id: string;
   qty: number;
   line_total: number;
+  modifiers?: LineModifier[] | null;
+  discount_type?: DiscountKind | null;
+  discount_amount?: number | null;
   menu_items?: { name: string };
 };
 
@@ -50,66 +94,6 @@ async function getMyProfile() {
 
 
 
-/**
- * We treat UI dates as "Philippines time" (UTC+8), regardless of the PC timezone.
- * startDate: YYYY-MM-DD (inclusive)
- * endDate:   YYYY-MM-DD (inclusive) -> converted to exclusive end by adding +1 day at midnight PH
- */
-function phDateRangeToUtcIso(startDate: string, endDateInclusive: string) {
-  const offsetMin = 8 * 60;
-
-  const [sy, sm, sd] = startDate.split("-").map(Number);
-  const [ey, em, ed] = endDateInclusive.split("-").map(Number);
-
-  // build PH midnight dates using UTC constructors (avoid local timezone effects)
-  const startPhMs = Date.UTC(sy, sm - 1, sd, 0, 0, 0);
-  const endPhMsInclusive = Date.UTC(ey, em - 1, ed, 0, 0, 0);
-
-  // end exclusive = next day midnight (PH)
-  const endPhExclusiveMs = endPhMsInclusive + 24 * 60 * 60 * 1000;
-
-  // Convert PH time -> UTC time: UTC = PH - 8 hours
-  const startUtcMs = startPhMs - offsetMin * 60 * 1000;
-  const endUtcMs = endPhExclusiveMs - offsetMin * 60 * 1000;
-
-  return {
-    startUtc: new Date(startUtcMs).toISOString(),
-    endUtc: new Date(endUtcMs).toISOString(),
-  };
-}
-
-// Returns YYYY-MM-DD for "today" in PH time (UTC+8)
-function phTodayYMD() {
-  const now = new Date();
-  const nowUtcMs = now.getTime() + now.getTimezoneOffset() * 60000;
-  const ph = new Date(nowUtcMs + 8 * 60 * 60000);
-  const y = ph.getUTCFullYear();
-  const m = String(ph.getUTCMonth() + 1).padStart(2, "0");
-  const d = String(ph.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
-}
-
-function phStartOfWeekYMD() {
-  // Week starts Monday
-  const now = new Date();
-  const nowUtcMs = now.getTime() + now.getTimezoneOffset() * 60000;
-  const ph = new Date(nowUtcMs + 8 * 60 * 60000);
-
-  const day = ph.getUTCDay(); // 0=Sun ... 6=Sat
-  const mondayOffset = day === 0 ? -6 : 1 - day;
-  const monday = new Date(Date.UTC(ph.getUTCFullYear(), ph.getUTCMonth(), ph.getUTCDate() + mondayOffset));
-  const y = monday.getUTCFullYear();
-  const m = String(monday.getUTCMonth() + 1).padStart(2, "0");
-  const d = String(monday.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
-}
-
-function phStartOfMonthYMD() {
-  const today = phTodayYMD();
-  const [y, m] = today.split("-");
-  return `${y}-${m}-01`;
-}
-
 function fmtMoney(n: number) {
   return `₱${Number(n || 0).toFixed(2)}`;
 }
@@ -138,7 +122,7 @@ export default function OwnerDashboard() {
   const [errorMsg, setErrorMsg] = useState("");
   const [loading, setLoading] = useState(true);
   
-  const [tab, setTab] = useState<"dashboard" | "inventory">("dashboard");
+  const [tab, setTab] = useState<"dashboard" | "inventory" | "menu" | "gcash" | "shifts" | "closings">("dashboard");
 
   type ReplaceLine = {
     id: string; // local id (menu_item_id)
@@ -166,6 +150,8 @@ export default function OwnerDashboard() {
 
   // branches cached
   const [branches, setBranches] = useState<Branch[]>([]);
+  // latest business-day cutoff of any branch; "today" presets follow it
+  const [dayCutoff, setDayCutoff] = useState(DEFAULT_DAY_CUTOFF);
 
   // main dashboard range (customizable)
   const [startDate, setStartDate] = useState(phTodayYMD());
@@ -174,6 +160,7 @@ export default function OwnerDashboard() {
   // main range data
   const [orders, setOrders] = useState<Order[]>([]);
   const [lines, setLines] = useState<Line[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
 
   // summaries
   const [sumToday, setSumToday] = useState<{ total: number; count: number }>({ total: 0, count: 0 });
@@ -264,15 +251,21 @@ export default function OwnerDashboard() {
     }, [lines, salesOrderIdSet]);
 
 
+    // 5) Tenders of non-voided orders (a SPLIT order has one CASH and one GCASH row)
+    const salesPayments = useMemo(() => {
+    return payments.filter((p) => salesOrderIdSet.has(p.order_id));
+    }, [payments, salesOrderIdSet]);
+
+
   const paymentSplit = useMemo(() => {
     let cash = 0,
       gcash = 0;
-    for (const o of salesOrders) {
-      if (o.payment_type === "CASH") cash += Number(o.total_amount || 0);
-      else if (o.payment_type === "GCASH") gcash += Number(o.total_amount || 0);
+    for (const p of salesPayments) {
+      if (p.method === "CASH") cash += Number(p.amount || 0);
+      else if (p.method === "GCASH") gcash += Number(p.amount || 0);
     }
     return { cash, gcash };
-  }, [salesOrders]);
+  }, [salesPayments]);
    
  
   //const totalSales = useMemo(() => orders.reduce((s, o) => s + Number(o.total_amount || 0), 0), [orders]);
@@ -282,22 +275,27 @@ export default function OwnerDashboard() {
 
   const totalSales = salesOrders.reduce((sum, o) => sum + Number(o.total_amount || 0),0 );
 
-  const cashSales = salesOrders
-    .filter(o => o.payment_type === "CASH")
-    .reduce((sum, o) => sum + Number(o.total_amount || 0), 0);
+  const cashSales = salesPayments
+    .filter(p => p.method === "CASH")
+    .reduce((sum, p) => sum + Number(p.amount || 0), 0);
 
-  const gcashSales = salesOrders
-    .filter(o => o.payment_type === "GCASH")
-    .reduce((sum, o) => sum + Number(o.total_amount || 0), 0);
+  const gcashSales = salesPayments
+    .filter(p => p.method === "GCASH")
+    .reduce((sum, p) => sum + Number(p.amount || 0), 0);
 
 
   
   const salesByBranch = useMemo(() => {
-    const map = new Map<string, { total: number; count: number }>();
+    const map = new Map<string, { total: number; count: number; ticketSecs: number; tickets: number }>();
     for (const o of salesOrders) {
-      const cur = map.get(o.branch_id) ?? { total: 0, count: 0 };
+      const cur = map.get(o.branch_id) ?? { total: 0, count: 0, ticketSecs: 0, tickets: 0 };
       cur.total += Number(o.total_amount || 0);
       cur.count += 1;
+      const secs = ticketSeconds(o);
+      if (secs !== null) {
+        cur.ticketSecs += secs;
+        cur.tickets += 1;
+      }
       map.set(o.branch_id, cur);
     }
     return Array.from(map.entries())
@@ -305,25 +303,45 @@ export default function OwnerDashboard() {
         branch_id,
         total: v.total,
         count: v.count,
+        avgTicket: v.tickets > 0 ? v.ticketSecs / v.tickets : null, // paid -> ready, kitchen orders only
         name: branchNameById.get(branch_id) ?? branch_id,
       }))
       .sort((a, b) => b.total - a.total);
   }, [salesOrders, branchNameById]);
 
+  // orders from before order types existed are grouped as "Unspecified"
+  const salesByOrderType = useMemo(() => {
+    const map = new Map<string, { total: number; count: number; fees: number }>();
+    for (const o of salesOrders) {
+      const key = o.order_type ?? "";
+      const cur = map.get(key) ?? { total: 0, count: 0, fees: 0 };
+      cur.total += Number(o.total_amount || 0);
+      cur.count += 1;
+      cur.fees += Number(o.fee_amount || 0);
+      map.set(key, cur);
+    }
+    return Array.from(map.entries())
+      .map(([type, v]) => ({ type, name: ORDER_TYPE_LABELS[type as OrderType] ?? "Unspecified", ...v }))
+      .sort((a, b) => b.total - a.total);
+  }, [salesOrders]);
+
+  // amounts are net of line discounts and each line's share of the order discount
   const topItems = useMemo(() => {
+    const orderById = new Map(salesOrders.map((o) => [o.id, o]));
     const map = new Map<string, { name: string; qty: number; amount: number }>();
     for (const l of salesLines) {
       const name = l.menu_items?.name ?? "Unknown";
       const key = l.menu_item_id;
+      const o = orderById.get(l.order_id);
       const cur = map.get(key) ?? { name, qty: 0, amount: 0 };
       cur.qty += Number(l.qty || 0);
-      cur.amount += Number(l.line_total || 0);
+      cur.amount += netLineAmount(l.line_total, o?.subtotal_amount, Number(o?.total_amount || 0) - Number(o?.fee_amount || 0));
       map.set(key, cur);
     }
     return Array.from(map.values())
       .sort((a, b) => b.amount - a.amount)
       .slice(0, 10);
-  }, [salesLines]);
+  }, [salesLines, salesOrders]);
 
   
   const orderLinesForSelectedOrder = useMemo(() => {
@@ -340,14 +358,12 @@ export default function OwnerDashboard() {
   }
 
   async function fetchOrdersOnly(startYmd: string, endYmd: string) {
-    const { startUtc, endUtc } = phDateRangeToUtcIso(startYmd, endYmd);
-
     const { data: o, error: oErr } = await supabase
       .from("orders")
       .select("id,branch_id,created_at,payment_type,total_amount,status")
       .eq("status", "PAID")
-      .gte("created_at", startUtc)
-      .lt("created_at", endUtc);
+      .gte("business_date", startYmd)
+      .lte("business_date", endYmd);
 
     if (oErr) throw new Error(oErr.message);
     const ord = (o ?? []) as Order[];
@@ -357,9 +373,14 @@ export default function OwnerDashboard() {
   }
 
   async function loadSummaries() {
-    const today = phTodayYMD();
-    const wtdStart = phStartOfWeekYMD();
-    const mtdStart = phStartOfMonthYMD();
+    const { data: bs, error: bsErr } = await supabase.from("branch_settings").select("branch_id,business_day_cutoff");
+    if (bsErr) throw new Error(bsErr.message);
+    const cutoff = latestDayCutoff((bs ?? []) as BranchSettings[]);
+    setDayCutoff(cutoff);
+
+    const today = phTodayYMD(cutoff);
+    const wtdStart = phStartOfWeekYMD(cutoff);
+    const mtdStart = phStartOfMonthYMD(cutoff);
 
     const [t, w, m] = await Promise.all([
       fetchOrdersOnly(today, today),
@@ -373,32 +394,38 @@ export default function OwnerDashboard() {
   }
 
   async function loadMainRange(startYmd: string, endYmd: string) {
-    const { startUtc, endUtc } = phDateRangeToUtcIso(startYmd, endYmd);
-
     // orders
     const { data: o, error: oErr } = await supabase
       .from("orders")
-      .select("id,branch_id,created_at,payment_type,total_amount,status,order_no,business_date")
-      .gte("created_at", startUtc)
-      .lt("created_at", endUtc);
+      .select(
+        "id,branch_id,created_at,payment_type,total_amount,status,order_no,business_date,subtotal_amount,discount_type,discount_amount,discount_id_no,order_type,table_no,platform,platform_ref,fee_label,fee_amount,platform_commission,kitchen_queued_at,kitchen_ready_at,invoice_no,vatable_sales,vat_amount,vat_exempt_sales,zero_rated_sales,review_note"
+      )
+      .gte("business_date", startYmd)
+      .lte("business_date", endYmd);
 
     if (oErr) throw new Error(oErr.message);
     const ord = (o ?? []) as Order[];
     setOrders(ord);
 
-    // lines (no embedded join)
+    // lines + tenders (no embedded join)
     const orderIds = ord.map((x) => x.id);
     if (orderIds.length === 0) {
       setLines([]);
+      setPayments([]);
       return;
     }
 
-    const { data: l, error: lErr } = await supabase
-      .from("order_lines")
-      .select("order_id,menu_item_id,qty,line_total")
-      .in("order_id", orderIds);
+    const [{ data: l, error: lErr }, { data: p, error: pErr }] = await Promise.all([
+      supabase
+        .from("order_lines")
+        .select("order_id,menu_item_id,qty,modifiers,line_total,discount_type,discount_amount")
+        .in("order_id", orderIds),
+      supabase.from("order_payments").select("order_id,method,amount,reference").in("order_id", orderIds),
+    ]);
 
     if (lErr) throw new Error(lErr.message);
+    if (pErr) throw new Error(pErr.message);
+    setPayments((p ?? []) as Payment[]);
     const rawLines = (l ?? []) as Line[];
 
     // hydrate names
@@ -449,7 +476,9 @@ export default function OwnerDashboard() {
     // old order
     const { data: old, error: e1 } = await supabase
       .from("orders")
-      .select("id, branch_id, payment_type, total_amount")
+      .select(
+        "id, branch_id, payment_type, total_amount, shift_id, subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder, order_type, table_no, platform, platform_ref, fee_label, fee_amount, vatable_sales, vat_amount, vat_exempt_sales, zero_rated_sales"
+      )
       .eq("id", oldOrderId)
       .single();
     if (e1) throw new Error(e1.message);
@@ -457,7 +486,7 @@ export default function OwnerDashboard() {
     // old lines + item names
     const { data: lines, error: e2 } = await supabase
       .from("order_lines")
-      .select("menu_item_id, qty, unit_price, line_total, menu_items(name)")
+      .select("menu_item_id, qty, unit_price, modifiers, discount_type, discount_value, discount_amount, line_total, menu_items(name)")
       .eq("order_id", oldOrderId);
     if (e2) throw new Error(e2.message);
 
@@ -476,6 +505,23 @@ export default function OwnerDashboard() {
     total_amount: old.total_amount,
     status: "DRAFT",
     replaces: oldOrderId,
+    shift_id: old.shift_id, // stays in the original cashier's Z-report
+    subtotal_amount: old.subtotal_amount,
+    discount_type: old.discount_type,
+    discount_value: old.discount_value,
+    discount_amount: old.discount_amount,
+    discount_id_no: old.discount_id_no,
+    discount_holder: old.discount_holder,
+    order_type: old.order_type,
+    table_no: old.table_no,
+    platform: old.platform,
+    platform_ref: old.platform_ref,
+    fee_label: old.fee_label,
+    fee_amount: old.fee_amount,
+    vatable_sales: old.vatable_sales,
+    vat_amount: old.vat_amount,
+    vat_exempt_sales: old.vat_exempt_sales,
+    zero_rated_sales: old.zero_rated_sales,
     })
     .select("id")
     .single();
@@ -489,6 +535,10 @@ export default function OwnerDashboard() {
       menu_item_id: l.menu_item_id,
       qty: l.qty,
       unit_price: l.unit_price,
+      modifiers: l.modifiers,
+      discount_type: l.discount_type,
+      discount_value: l.discount_value,
+      discount_amount: l.discount_amount,
       line_total: l.line_total,
     }));
 
@@ -497,11 +547,31 @@ export default function OwnerDashboard() {
       if (e4) throw new Error(e4.message);
     }
 
+    // copy tenders too: the money was collected once, on the original order
+    const { data: tenders, error: e5 } = await supabase
+      .from("order_payments")
+      .select("id, method, amount, reference")
+      .eq("order_id", oldOrderId);
+    if (e5) throw new Error(e5.message);
+
+    if ((tenders ?? []).length > 0) {
+      const { error: e6 } = await supabase.from("order_payments").insert(
+        (tenders ?? []).map((t) => ({
+          order_id: newOrder.id,
+          method: t.method,
+          amount: t.amount,
+          reference: t.reference,
+          carried_from: t.id,
+        }))
+      );
+      if (e6) throw new Error(e6.message);
+    }
+
     // editor state (client-side)
     const editorLines: ReplaceLine[] = (lines ?? []).map((l: any) => ({
       id: l.menu_item_id,
       menu_item_id: l.menu_item_id,
-      name: l.menu_items?.name ?? "Unknown",
+      name: [l.menu_items?.name ?? "Unknown", describeModifiers(l.modifiers)].filter(Boolean).join(" — "),
       unit_price: Number(l.unit_price),
       qty: Number(l.qty),
     }));
@@ -708,7 +778,7 @@ function cancelReplacement() {
 
 
   function setPresetToday() {
-    const t = phTodayYMD();
+    const t = phTodayYMD(dayCutoff);
     setStartDate(t);
     setEndDate(t);
     setSelectedBranchId(null);
@@ -716,16 +786,16 @@ function cancelReplacement() {
   }
 
   function setPresetWtd() {
-    const end = phTodayYMD();
-    setStartDate(phStartOfWeekYMD());
+    const end = phTodayYMD(dayCutoff);
+    setStartDate(phStartOfWeekYMD(dayCutoff));
     setEndDate(end);
     setSelectedBranchId(null);
     setSelectedOrderId(null);
   }
 
   function setPresetMtd() {
-    const end = phTodayYMD();
-    setStartDate(phStartOfMonthYMD());
+    const end = phTodayYMD(dayCutoff);
+    setStartDate(phStartOfMonthYMD(dayCutoff));
     setEndDate(end);
     setSelectedBranchId(null);
     setSelectedOrderId(null);
@@ -765,15 +835,41 @@ function cancelReplacement() {
       linesByOrder.set(l.order_id, arr);
     }
 
-    const header = [
+    const paymentsByOrder = new Map<string, Payment[]>();
+    for (const p of payments) {
+      const arr = paymentsByOrder.get(p.order_id) ?? [];
+      arr.push(p);
+      paymentsByOrder.set(p.order_id, arr);
+    }
 
+    const header = [
+      "order_id",
       "order_created_at",
+      "business_date",
       "branch",
       "payment_type",
+      "invoice_no",
+      "order_subtotal",
+      "order_discount_type",
+      "order_discount",
+      "discount_id_no",
+      "order_type",
+      "order_fee",
       "order_total",
+      "vatable_sales",
+      "vat_amount",
+      "vat_exempt_sales",
+      "zero_rated_sales",
+      "platform_commission",
+      "cash_amount",
+      "gcash_amount",
+      "gcash_refs",
       "item_name",
+      "modifiers",
       "qty",
+      "line_discount",
       "line_total",
+      "line_net",
     ];
 
     const rows: string[] = [];
@@ -784,15 +880,42 @@ function cancelReplacement() {
     for (const o of ordersSorted) {
       const branch = branchNameById.get(o.branch_id) ?? o.branch_id;
       const ol = linesByOrder.get(o.id) ?? [];
+      const op = paymentsByOrder.get(o.id) ?? [];
+      const vatCol = (n: number | null | undefined) => escapeCsv(n == null ? "" : Number(n).toFixed(2));
+      const orderCols = [
+        escapeCsv(o.invoice_no ?? ""),
+        escapeCsv(Number(o.subtotal_amount ?? o.total_amount ?? 0).toFixed(2)),
+        escapeCsv(o.discount_type ?? ""),
+        escapeCsv(Number(o.discount_amount || 0).toFixed(2)),
+        escapeCsv(o.discount_id_no ?? ""),
+        escapeCsv(describeOrderType(o) ?? ""),
+        escapeCsv(Number(o.fee_amount || 0).toFixed(2)),
+        escapeCsv(Number(o.total_amount || 0).toFixed(2)),
+        vatCol(o.vatable_sales),
+        vatCol(o.vat_amount),
+        vatCol(o.vat_exempt_sales),
+        vatCol(o.zero_rated_sales),
+        escapeCsv(o.platform_commission == null ? "" : Number(o.platform_commission).toFixed(2)),
+      ];
+      const tenderCols = [
+        escapeCsv(op.filter((p) => p.method === "CASH").reduce((s, p) => s + Number(p.amount || 0), 0).toFixed(2)),
+        escapeCsv(op.filter((p) => p.method === "GCASH").reduce((s, p) => s + Number(p.amount || 0), 0).toFixed(2)),
+        escapeCsv(op.map((p) => p.reference).filter(Boolean).join(" ")),
+      ];
 
       if (ol.length === 0) {
         rows.push(
           [
             escapeCsv(o.id),
             escapeCsv(o.created_at),
+            escapeCsv(o.business_date ?? ""),
             escapeCsv(branch),
             escapeCsv(o.payment_type),
-            escapeCsv(Number(o.total_amount || 0).toFixed(2)),
+            ...orderCols,
+            ...tenderCols,
+            "",
+            "",
+            "",
             "",
             "",
             "",
@@ -804,12 +927,19 @@ function cancelReplacement() {
             [
               escapeCsv(o.id),
               escapeCsv(o.created_at),
+              escapeCsv(o.business_date ?? ""),
               escapeCsv(branch),
               escapeCsv(o.payment_type),
-              escapeCsv(Number(o.total_amount || 0).toFixed(2)),
+              ...orderCols,
+              ...tenderCols,
               escapeCsv(l.menu_items?.name ?? "Unknown"),
+              escapeCsv(describeModifiers(l.modifiers)),
               escapeCsv(l.qty),
+              escapeCsv(Number(l.discount_amount || 0).toFixed(2)),
               escapeCsv(Number(l.line_total || 0).toFixed(2)),
+              escapeCsv(
+                netLineAmount(l.line_total, o.subtotal_amount, Number(o.total_amount || 0) - Number(o.fee_amount || 0)).toFixed(2)
+              ),
             ].join(",")
           );
         }
@@ -842,35 +972,29 @@ function cancelReplacement() {
       
 
     <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
-    <button
-      onClick={() => setTab("dashboard")}
-      style={{
-      padding: "8px 14px",
-      borderRadius: 999,
-      border: "1px solid rgba(255,255,255,0.3)",
-      background: tab === "dashboard" ? "rgba(255,255,255,0.18)" : "rgba(0,0,0,0.25)",
-      color: "#fff",
-      fontWeight: 800,
-      cursor: "pointer",
-     }}
-   >
+    <button onClick={() => setTab("dashboard")} style={tabBtnStyle(tab === "dashboard")}>
       Dashboard
     </button>
 
-        <button
-        onClick={() => setTab("inventory")}
-        style={{
-          padding: "8px 14px",
-          borderRadius: 999,
-          border: "1px solid rgba(255,255,255,0.3)",
-          background: tab === "inventory" ? "rgba(255,255,255,0.18)" : "rgba(0,0,0,0.25)",
-          color: "#fff",
-          fontWeight: 800,
-          cursor: "pointer",
-        }}
-        >
-        Inventory / Commissary
-      </button>
+    <button onClick={() => setTab("inventory")} style={tabBtnStyle(tab === "inventory")}>
+      Inventory / Commissary
+    </button>
+
+    <button onClick={() => setTab("menu")} style={tabBtnStyle(tab === "menu")}>
+      Menu
+    </button>
+
+    <button onClick={() => setTab("gcash")} style={tabBtnStyle(tab === "gcash")}>
+      GCash Recon
+    </button>
+
+    <button onClick={() => setTab("shifts")} style={tabBtnStyle(tab === "shifts")}>
+      Shifts
+    </button>
+
+    <button onClick={() => setTab("closings")} style={tabBtnStyle(tab === "closings")}>
+      Closings
+    </button>
 
         <button
         onClick={() => confirmAndLogout("Log out of Owner Dashboard?")}
@@ -1123,7 +1247,10 @@ function cancelReplacement() {
                         <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
                           <div>
                             <div style={{ fontWeight: 900 }}>{x.name}</div>
-                            <div style={{ color: "#aaa", fontSize: 12 }}>{x.count} orders</div>
+                            <div style={{ color: "#aaa", fontSize: 12 }}>
+                              {x.count} orders
+                              {x.avgTicket !== null ? ` • avg ticket ${fmtDuration(x.avgTicket)}` : ""}
+                            </div>
                           </div>
                           <div style={{ fontWeight: 900 }}>{fmtMoney(x.total)}</div>
                         </div>
@@ -1132,6 +1259,38 @@ function cancelReplacement() {
                   })}
                 </div>
               )}
+
+              <h2>Sales by Order Type</h2>
+
+              {salesByOrderType.length === 0 ? (
+                <div style={{ color: "#888" }}>No sales in this range.</div>
+              ) : (
+                <div style={{ display: "grid", gap: 8 }}>
+                  {salesByOrderType.map((x) => (
+                    <div
+                      key={x.type || "none"}
+                      style={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        gap: 12,
+                        border: "1px solid rgba(255,255,255,0.14)",
+                        borderRadius: 14,
+                        padding: 12,
+                        background: "rgba(255,255,255,0.06)",
+                      }}
+                    >
+                      <div>
+                        <div style={{ fontWeight: 900 }}>{x.name}</div>
+                        <div style={{ color: "#aaa", fontSize: 12 }}>
+                          {x.count} orders
+                          {x.fees > 0 ? ` • fees ${fmtMoney(x.fees)}` : ""}
+                        </div>
+                      </div>
+                      <div style={{ fontWeight: 900 }}>{fmtMoney(x.total)}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -1220,11 +1379,29 @@ function cancelReplacement() {
                                         VOIDED
                                       </span>
                                     )}
+
+                                    {o.review_note && (
+                                      <span
+                                        title={o.review_note}
+                                        style={{
+                                          marginLeft: 8,
+                                          background: "#b7791f",
+                                          padding: "2px 6px",
+                                          borderRadius: 6,
+                                          fontSize: 11,
+                                          fontWeight: 700
+                                        }}
+                                      >
+                                        REVIEW
+                                      </span>
+                                    )}
                                   </div>
 
                                   {/* time + id */}
                                   <div style={{ color: "#aaa", fontSize: 12 }}>
                                     {branchNameById.get(o.branch_id) ?? "Branch"} #{o.order_no ?? "—"}
+                                    {o.invoice_no != null ? ` • SI ${fmtInvoiceNo(o.invoice_no)}` : ""}
+                                    {describeOrderType(o) ? ` • ${describeOrderType(o)}` : ""}
                                   </div>
 
                                   {/* replacement reference */}
@@ -1263,6 +1440,12 @@ function cancelReplacement() {
                     Order ID: <span style={{ color: "#fff" }}>{selectedOrderId}</span>
                   </div>
 
+                  {orders.find((o) => o.id === selectedOrderId)?.review_note && (
+                    <div style={{ color: "#f6ad55", fontSize: 12, marginBottom: 12 }}>
+                      {orders.find((o) => o.id === selectedOrderId)?.review_note}
+                    </div>
+                  )}
+
                   <button
                     onClick={() => startVoidAndReplace(selectedOrderId)}
                     disabled={replaceSaving}
@@ -1299,7 +1482,15 @@ function cancelReplacement() {
                         >
                           <div>
                             <div style={{ fontWeight: 900 }}>{l.menu_items?.name ?? "Unknown"}</div>
-                            <div style={{ color: "#aaa", fontSize: 12 }}>Qty: {l.qty}</div>
+                            {l.modifiers?.length ? (
+                              <div style={{ color: "#aaa", fontSize: 12 }}>{describeModifiers(l.modifiers)}</div>
+                            ) : null}
+                            <div style={{ color: "#aaa", fontSize: 12 }}>
+                              Qty: {l.qty}
+                              {Number(l.discount_amount || 0) > 0
+                                ? ` • ${l.discount_type} −${fmtMoney(Number(l.discount_amount))}`
+                                : ""}
+                            </div>
                           </div>
                           <div style={{ fontWeight: 900 }}>{fmtMoney(l.line_total)}</div>
                         </div>
@@ -1370,8 +1561,16 @@ function cancelReplacement() {
           </div>
         </div>
       </>
-      ) : (
+      ) : tab === "inventory" ? (
         <InventoryTab />
+      ) : tab === "menu" ? (
+        <MenuTab />
+      ) : tab === "gcash" ? (
+        <GcashReconTab />
+      ) : tab === "shifts" ? (
+        <ShiftsTab />
+      ) : (
+        <ClosingsTab />
       )
 
     ) : null}
@@ -1396,6 +1595,18 @@ function btnStyle(primary?: boolean): React.CSSProperties {
   };
 }
 
+function tabBtnStyle(active: boolean): React.CSSProperties {
+  return {
+    padding: "8px 14px",
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.3)",
+    background: active ? "rgba(255,255,255,0.18)" : "rgba(0,0,0,0.25)",
+    color: "#fff",
+    fontWeight: 800,
+    cursor: "pointer",
+  };
+}
+
 function inputStyle(): React.CSSProperties {
   return {
     padding: "8px 10px",
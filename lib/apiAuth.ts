@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type Caller = {
+  userId: string;
+  role: string;
+  branchId: string | null;
+};
+
+export function getBearer(req: Request) {
+  const h = req.headers.get("authorization") || "";
+  if (!h.toLowerCase().startsWith("bearer ")) return null;
+  return h.slice(7).trim();
+}
+
+/**
+ * Validates the bearer token on an API request and loads the caller's profile.
+ * On failure `error` holds the response the route should return as-is.
+ */
+export async function getCaller(
+  req: Request
+): Promise<{ caller: Caller; error: null } | { caller: null; error: NextResponse }> {
+  const token = getBearer(req);
+  if (!token) return { caller: null, error: NextResponse.json({ error: "Missing auth token" }, { status: 401 }) };
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anon) {
+    return { caller: null, error: NextResponse.json({ error: "Missing public env vars" }, { status: 500 }) };
+  }
+
+  // validate caller via token
+  const viewer = createClient(url, anon, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false },
+  });
+
+  const { data: userData, error: userErr } = await viewer.auth.getUser();
+  if (userErr || !userData?.user) {
+    return { caller: null, error: NextResponse.json({ error: "Invalid session" }, { status: 401 }) };
+  }
+
+  const { data: prof, error: profErr } = await supabaseAdmin
+    .from("profiles")
+    .select("role, branch_id")
+    .eq("user_id", userData.user.id)
+    .maybeSingle();
+
+  if (profErr) return { caller: null, error: NextResponse.json({ error: profErr.message }, { status: 500 }) };
+  if (!prof) return { caller: null, error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+
+  return {
+    caller: { userId: userData.user.id, role: prof.role, branchId: prof.branch_id ?? null },
+    error: null,
+  };
+}
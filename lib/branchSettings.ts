@@ -0,0 +1,25 @@
+// Per-branch settings (branch_settings). Branches without a row use the defaults.
+
+export type BranchSettings = {
+  branch_id: string;
+  business_day_cutoff: string; // Postgres time, "HH:MM:SS"
+};
+
+export const DEFAULT_DAY_CUTOFF = "00:00";
+
+/** A branch's business-day cutoff as "HH:MM". */
+export function dayCutoffOf(settings: BranchSettings[], branchId: string | null | undefined) {
+  const s = settings.find((x) => x.branch_id === branchId);
+  return s ? s.business_day_cutoff.slice(0, 5) : DEFAULT_DAY_CUTOFF;
+}
+
+/**
+ * The latest cutoff of any branch, for views that cover every branch at once:
+ * "today" only moves on once the last branch has closed its day.
+ */
+export function latestDayCutoff(settings: BranchSettings[]) {
+  return settings.reduce((max, s) => {
+    const c = s.business_day_cutoff.slice(0, 5);
+    return c > max ? c : max;
+  }, DEFAULT_DAY_CUTOFF);
+}
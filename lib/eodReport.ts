@@ -0,0 +1,174 @@
+import { isStatutory, round2, type DiscountKind } from "@/lib/pricing";
+import type { TenderMethod } from "@/lib/tenders";
+
+const PAGE = 1000;
+
+// PostgREST caps every response (1000 rows by default); a busy day has more lines than that.
+// Each page query needs a stable .order() so rows don't shift between pages.
+export async function fetchAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await page(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < PAGE) return rows;
+  }
+}
+
+export type EodVoid = {
+  order_id: string;
+  invoice_no: number | null;
+  order_no: string | number | null;
+  business_date: string | null; // the day it was sold, which may be before the day it was voided
+  amount: number;
+  reason: string | null;
+  voided_at: string;
+};
+
+// End-of-day (Z) reading for one branch and business_date, frozen into eod_closings.report
+export type EodReport = {
+  branch_id: string;
+  business_date: string;
+  closed_at: string;
+  order_count: number; // PAID invoices
+  first_invoice_no: number | null;
+  last_invoice_no: number | null;
+  gross_sales: number; // every invoice issued that day, before discounts
+  discount_sc_pwd: number;
+  discount_other: number;
+  void_count: number;
+  void_total: number;
+  net_sales: number; // gross - discounts - voids
+  vatable_sales: number;
+  vat_amount: number;
+  vat_exempt_sales: number;
+  zero_rated_sales: number;
+  cash_sales: number;
+  gcash_sales: number;
+  platform_sales: number;
+  old_grand_total: number;
+  new_grand_total: number; // accumulated net sales of every closing so far
+  voids: EodVoid[];
+};
+
+export type EodClosingRow = {
+  id: string;
+  branch_id: string;
+  business_date: string;
+  closed_at: string;
+  closed_by: string | null;
+  net_sales: number;
+  old_grand_total: number;
+  new_grand_total: number;
+  report: EodReport;
+};
+
+type EodOrder = {
+  id: string;
+  status: string | null;
+  invoice_no: number | null;
+  total_amount: number;
+  discount_type: DiscountKind | null;
+  discount_amount: number | null;
+  vatable_sales: number | null;
+  vat_amount: number | null;
+  vat_exempt_sales: number | null;
+  zero_rated_sales: number | null;
+};
+type EodLine = { order_id: string; discount_type: DiscountKind | null; discount_amount: number | null };
+type EodTender = { order_id: string; method: TenderMethod; amount: number };
+type EodVoidedOrder = {
+  id: string;
+  invoice_no: number | null;
+  order_no: string | number | null;
+  business_date: string | null;
+  total_amount: number;
+  void_reason: string | null;
+  voided_at: string;
+};
+
+/**
+ * Z-reading for a business day. Sales are the invoices issued that day (PAID, or
+ * VOIDED since); voids are whatever was voided during the day, whichever day it
+ * was sold, so a void after an earlier day was closed still shows up somewhere.
+ * VAT and tenders only count orders that are still PAID.
+ */
+export function buildEodReport(args: {
+  branchId: string;
+  businessDate: string;
+  closedAt: string;
+  orders: EodOrder[];
+  lines: EodLine[];
+  tenders: EodTender[];
+  voided: EodVoidedOrder[];
+  previousGrandTotal: number;
+}): EodReport {
+  const sum = (xs: (number | null | undefined)[]) => round2(xs.reduce<number>((s, x) => s + Number(x || 0), 0));
+
+  const invoiced = args.orders.filter((o) => o.invoice_no != null);
+  const paid = invoiced.filter((o) => o.status === "PAID");
+  const invoicedById = new Map(invoiced.map((o) => [o.id, o]));
+  const paidIds = new Set(paid.map((o) => o.id));
+
+  // an SC/PWD order discount makes the whole order statutory; otherwise each line decides
+  let scPwd = 0;
+  let other = 0;
+  for (const o of invoiced) {
+    if (isStatutory(o.discount_type)) scPwd += Number(o.discount_amount || 0);
+    else other += Number(o.discount_amount || 0);
+  }
+  for (const l of args.lines) {
+    const o = invoicedById.get(l.order_id);
+    if (!o) continue;
+    if (isStatutory(l.discount_type) || isStatutory(o.discount_type)) scPwd += Number(l.discount_amount || 0);
+    else other += Number(l.discount_amount || 0);
+  }
+  const discountScPwd = round2(scPwd);
+  const discountOther = round2(other);
+
+  const voids: EodVoid[] = args.voided
+    .map((v) => ({
+      order_id: v.id,
+      invoice_no: v.invoice_no,
+      order_no: v.order_no,
+      business_date: v.business_date,
+      amount: round2(Number(v.total_amount || 0)),
+      reason: v.void_reason,
+      voided_at: v.voided_at,
+    }))
+    .sort((a, b) => (a.voided_at < b.voided_at ? -1 : 1));
+  const voidTotal = sum(voids.map((v) => v.amount));
+
+  const grossSales = round2(sum(invoiced.map((o) => o.total_amount)) + discountScPwd + discountOther);
+  const netSales = round2(grossSales - discountScPwd - discountOther - voidTotal);
+  const paidTenders = args.tenders.filter((t) => paidIds.has(t.order_id));
+  const invoiceNos = invoiced.map((o) => Number(o.invoice_no));
+  const oldGrandTotal = round2(args.previousGrandTotal);
+
+  return {
+    branch_id: args.branchId,
+    business_date: args.businessDate,
+    closed_at: args.closedAt,
+    order_count: paid.length,
+    first_invoice_no: invoiceNos.length > 0 ? Math.min(...invoiceNos) : null,
+    last_invoice_no: invoiceNos.length > 0 ? Math.max(...invoiceNos) : null,
+    gross_sales: grossSales,
+    discount_sc_pwd: discountScPwd,
+    discount_other: discountOther,
+    void_count: voids.length,
+    void_total: voidTotal,
+    net_sales: netSales,
+    vatable_sales: sum(paid.map((o) => o.vatable_sales)),
+    vat_amount: sum(paid.map((o) => o.vat_amount)),
+    vat_exempt_sales: sum(paid.map((o) => o.vat_exempt_sales)),
+    zero_rated_sales: sum(paid.map((o) => o.zero_rated_sales)),
+    cash_sales: sum(paidTenders.filter((t) => t.method === "CASH").map((t) => t.amount)),
+    gcash_sales: sum(paidTenders.filter((t) => t.method === "GCASH").map((t) => t.amount)),
+    platform_sales: sum(paidTenders.filter((t) => t.method === "PLATFORM").map((t) => t.amount)),
+    old_grand_total: oldGrandTotal,
+    new_grand_total: round2(oldGrandTotal + netSales),
+    voids,
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import { encodeReceipt } from "@/lib/escpos";
+import type { Receipt } from "@/lib/receipt";
+
+// lib/receipt loads receipts through the Supabase client, which needs env vars; the encoder doesn't
+vi.mock("@/lib/supabase", () => ({ supabase: {} }));
+
+const receipt: Receipt = {
+  orderId: "00000000-0000-0000-0000-000000000001",
+  branchName: "Parañaque",
+  orderNo: 42,
+  invoiceNo: 1234,
+  businessDate: "2026-10-19",
+  createdAt: "2026-10-19T04:05:06.000Z",
+  paymentType: "SPLIT",
+  status: "PAID",
+  orderType: "Dine-in • Table 4",
+  lines: [
+    {
+      name: "Jalapeño Burger Deluxe with Extra Cheese",
+      options: "Large, No onions",
+      qty: 2,
+      unitPrice: 150,
+      discountLabel: null,
+      discountAmount: 0,
+      lineTotal: 300,
+    },
+    {
+      name: "Iced Tea",
+      options: "",
+      qty: 1,
+      unitPrice: 56,
+      discountLabel: "Senior Citizen 20% (VAT-exempt)",
+      discountAmount: 16,
+      lineTotal: 40,
+    },
+  ],
+  subtotal: 340,
+  discountLabel: null,
+  discountAmount: 0,
+  discountHolder: "Juan Dela Cruz (SC-0001)",
+  feeLabel: "Service charge",
+  feeAmount: 10,
+  total: 350,
+  vat: { vatable_sales: 276.79, vat_amount: 33.21, vat_exempt_sales: 40, zero_rated_sales: 0 },
+  amountTendered: 200,
+  changeDue: 50,
+  payments: [
+    { method: "CASH", amount: 150, reference: null },
+    { method: "GCASH", amount: 200, reference: "1234567890123" },
+  ],
+};
+
+// Printable bytes as text, everything else as <hex>, one printed line per snapshot line
+function dump(bytes: Uint8Array) {
+  let out = "";
+  for (const b of bytes) {
+    if (b === 0x0a) out += "\n";
+    else if (b >= 0x20 && b < 0x7f) out += String.fromCharCode(b);
+    else out += `<${b.toString(16).padStart(2, "0")}>`;
+  }
+  return out;
+}
+
+function indexOfSeq(bytes: Uint8Array, seq: number[], from = 0) {
+  for (let i = from; i <= bytes.length - seq.length; i++) {
+    if (seq.every((b, j) => bytes[i + j] === b)) return i;
+  }
+  return -1;
+}
+
+describe("encodeReceipt", () => {
+  it("matches the snapshot for a 58mm receipt", () => {
+    expect(dump(encodeReceipt(receipt))).toMatchSnapshot();
+  });
+
+  it("matches the snapshot for an 80mm receipt without a cut", () => {
+    expect(dump(encodeReceipt(receipt, { width: 48, cut: false }))).toMatchSnapshot();
+  });
+
+  it("initializes, centers the header and goes back to left for the body", () => {
+    const bytes = encodeReceipt(receipt);
+    expect(Array.from(bytes.slice(0, 2))).toEqual([0x1b, 0x40]);
+
+    const center = indexOfSeq(bytes, [0x1b, 0x61, 0x01]);
+    const left = indexOfSeq(bytes, [0x1b, 0x61, 0x00]);
+    const header = indexOfSeq(bytes, Array.from(Buffer.from("SUPERBECKS")));
+    const body = indexOfSeq(bytes, Array.from(Buffer.from("Order #42")));
+    expect(center).toBeGreaterThan(-1);
+    expect(center).toBeLessThan(header);
+    expect(header).toBeLessThan(left);
+    expect(left).toBeLessThan(body);
+  });
+
+  it("ends with a partial cut only when asked to", () => {
+    const cut = [0x1d, 0x56, 0x42, 0x00];
+    expect(Array.from(encodeReceipt(receipt).slice(-4))).toEqual(cut);
+    expect(indexOfSeq(encodeReceipt(receipt, { cut: false }), cut)).toBe(-1);
+  });
+
+  it("keeps every byte single-byte ASCII: peso becomes P, ñ loses its tilde, bullets become dashes", () => {
+    const withPeso: Receipt = { ...receipt, lines: [{ ...receipt.lines[1], name: "₱50 off Niño's Meal" }] };
+    const bytes = encodeReceipt(withPeso);
+    const text = dump(bytes);
+
+    expect(text).toContain("Paranaque");
+    expect(text).toContain("P50 off Nino's Meal");
+    expect(text).toContain("Dine-in - Table 4");
+    expect(text).not.toContain("?");
+    // no UTF-8 lead/continuation bytes leak through to the printer's code page
+    expect(Array.from(bytes).every((b) => b < 0x80)).toBe(true);
+  });
+
+  it("truncates a long item name so the amount stays right-aligned", () => {
+    const line = dump(encodeReceipt(receipt))
+      .split("\n")
+      .find((l) => l.startsWith("Jalapeno"));
+    expect(line).toHaveLength(32);
+    expect(line?.endsWith("300.00")).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { fmtInvoiceNo, fmtReceiptTime, type Receipt } from "@/lib/receipt";
+import { TENDER_LABELS } from "@/lib/tenders";
+
+// Minimal ESC/POS encoder for 58mm/80mm thermal printers. Output is a plain byte
+// array with no timestamps of its own, so the same Receipt always encodes to the
+// same bytes (handy for snapshotting without a printer).
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type EscPosOptions = {
+  width?: number; // characters per line: 32 for 58mm paper, 48 for 80mm
+  cut?: boolean;
+};
+
+// Printers are left on their default code page, so stick to printable ASCII.
+function ascii(text: string) {
+  const out: number[] = [];
+  const plain = text.replace(/₱/g, "P").replace(/[•–—]/g, "-").replace(/×/g, "x");
+  for (const ch of plain.normalize("NFKD")) {
+    const c = ch.charCodeAt(0);
+    if (c >= 0x20 && c < 0x7f) out.push(c);
+    else if (c < 0x300 || c > 0x36f) out.push(0x3f); // "?" (combining accents are dropped)
+  }
+  return out;
+}
+
+function money(n: number) {
+  return Number(n || 0).toFixed(2);
+}
+
+// "left ........ right" on one line; long left text is truncated
+function row(left: string, right: string, width: number) {
+  const room = Math.max(width - right.length - 1, 1);
+  const l = left.length > room ? left.slice(0, room) : left;
+  return l + " ".repeat(width - l.length - right.length) + right;
+}
+
+export function encodeReceipt(r: Receipt, opts: EscPosOptions = {}) {
+  const width = opts.width ?? 32;
+  const bytes: number[] = [];
+
+  const cmd = (...b: number[]) => bytes.push(...b);
+  const text = (s: string) => {
+    bytes.push(...ascii(s));
+    bytes.push(LF);
+  };
+  const align = (a: "left" | "center") => cmd(ESC, 0x61, a === "center" ? 1 : 0);
+  const bold = (on: boolean) => cmd(ESC, 0x45, on ? 1 : 0);
+  const size = (double: boolean) => cmd(GS, 0x21, double ? 0x11 : 0x00);
+  const rule = () => text("-".repeat(width));
+
+  cmd(ESC, 0x40); // initialize
+
+  align("center");
+  bold(true);
+  size(true);
+  text("SUPERBECKS");
+  size(false);
+  text(r.branchName);
+  bold(false);
+  text(fmtReceiptTime(r.createdAt));
+
+  align("left");
+  rule();
+  text(row(`Order #${r.orderNo ?? "-"}`, r.businessDate ?? "", width));
+  if (r.invoiceNo !== null) text(`SI No. ${fmtInvoiceNo(r.invoiceNo)}`);
+  if (r.orderType) text(r.orderType);
+  if (r.status === "VOIDED") text("*** VOIDED ***");
+  rule();
+
+  for (const l of r.lines) {
+    text(row(l.name, money(l.lineTotal), width));
+    if (l.options) text(`  ${l.options}`);
+    text(`  ${l.qty} x ${money(l.unitPrice)}`);
+    if (l.discountAmount > 0) text(row(`  ${l.discountLabel ?? "Discount"}`, `-${money(l.discountAmount)}`, width));
+  }
+
+  rule();
+  if (r.discountAmount > 0 || r.feeAmount > 0) text(row("Subtotal", money(r.subtotal), width));
+  if (r.discountAmount > 0) text(row(r.discountLabel ?? "Discount", `-${money(r.discountAmount)}`, width));
+  if (r.feeAmount > 0) text(row(r.feeLabel ?? "Fee", money(r.feeAmount), width));
+  bold(true);
+  text(row("TOTAL", money(r.total), width));
+  bold(false);
+  text(row("Payment", r.paymentType, width));
+  for (const t of r.payments) {
+    text(row(TENDER_LABELS[t.method] ?? t.method, money(t.amount), width));
+    if (t.reference) text(row("  Ref", t.reference, width));
+  }
+  if (r.discountHolder) text(`SC/PWD: ${r.discountHolder}`);
+  if (r.amountTendered !== null) {
+    text(row("Cash tendered", money(r.amountTendered), width));
+    text(row("Change", money(r.changeDue ?? 0), width));
+  }
+  if (r.vat) {
+    rule();
+    text(row("VATable Sales", money(r.vat.vatable_sales), width));
+    text(row("VAT (12%)", money(r.vat.vat_amount), width));
+    text(row("VAT-Exempt Sales", money(r.vat.vat_exempt_sales), width));
+    text(row("Zero-Rated Sales", money(r.vat.zero_rated_sales), width));
+  }
+
+  align("center");
+  cmd(LF);
+  text("Thank you!");
+
+  cmd(LF, LF, LF);
+  if (opts.cut ?? true) cmd(GS, 0x56, 0x42, 0x00); // feed and partial cut
+
+  return Uint8Array.from(bytes);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseGcashStatement, reconcileGcash, type GcashPosPayment } from "@/lib/gcash";
+
+describe("parseCsv", () => {
+  it("keeps commas, doubled quotes and newlines inside quoted fields", () => {
+    const text = 'Date,Description,Amount\r\n2026-10-19,"Payment from ""Juan"", thanks",1500\n2026-10-19,"two\nlines",20';
+    expect(parseCsv(text)).toEqual([
+      ["Date", "Description", "Amount"],
+      ["2026-10-19", 'Payment from "Juan", thanks', "1500"],
+      ["2026-10-19", "two\nlines", "20"],
+    ]);
+  });
+
+  it("drops blank lines and a trailing newline", () => {
+    expect(parseCsv("a,b\n\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("parseGcashStatement", () => {
+  it("finds columns by header name, strips the BOM and reads the Credit column", () => {
+    const text =
+      "\uFEFFDate,Description,Reference No.,Debit,Credit\n" +
+      '2026-10-19 12:01,Received GCash,1234 567 891234,,"₱1,250.50"\n' +
+      "2026-10-19 12:30,Sent GCash,9999 000 111222,300,\n";
+    expect(parseGcashStatement(text)).toEqual([{ ref: "1234567891234", amount: 1250.5, date: "2026-10-19 12:01" }]);
+  });
+
+  it("falls back to an Amount column and skips refunds and rows without a reference", () => {
+    const text = "Reference,Amount\nabc-123456,99\n,50\nREF000111,-20\nREF000222,n/a\n";
+    expect(parseGcashStatement(text)).toEqual([{ ref: "ABC123456", amount: 99, date: "" }]);
+  });
+
+  it("rejects a CSV without a reference or amount column", () => {
+    expect(() => parseGcashStatement("Date,Description\n2026-10-19,x\n")).toThrow(
+      "CSV needs a reference column and a credit/amount column"
+    );
+    expect(parseGcashStatement("")).toEqual([]);
+  });
+});
+
+describe("reconcileGcash", () => {
+  const pay = (ref: string, amount: number): GcashPosPayment => ({
+    order_id: `order-${ref}`,
+    branch_id: "branch-1",
+    order_no: 1,
+    created_at: "2026-10-19T04:00:00.000Z",
+    ref,
+    amount,
+  });
+
+  it("pairs POS tenders with statement lines by reference", () => {
+    const rows = reconcileGcash(
+      [pay("REF001", 250), pay("REF002", 100.1)],
+      [
+        { ref: "REF001", amount: 250, date: "" },
+        { ref: "REF002", amount: 100, date: "" },
+        { ref: "REF003", amount: 75, date: "" },
+      ]
+    );
+    expect(rows.map((r) => [r.status, r.ref])).toEqual([
+      ["MATCHED", "REF001"],
+      ["MATCHED", "REF002"],
+      ["EXTRA", "REF003"],
+    ]);
+    expect(rows[0]).toMatchObject({ amountDiff: 0 });
+    expect(rows[1]).toMatchObject({ amountDiff: -0.1 });
+  });
+
+  it("reports tenders missing from the statement", () => {
+    expect(reconcileGcash([pay("REF004", 80)], [])).toEqual([{ status: "MISSING", ref: "REF004", pos: pay("REF004", 80) }]);
+  });
+});
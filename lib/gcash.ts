@@ -0,0 +1,116 @@
+// GCash reference numbers are printed with spaces ("1234 567 891234"); store them bare.
+export function normalizeGcashRef(ref: string) {
+  return ref.replace(/[\s-]/g, "").toUpperCase();
+}
+
+export function isValidGcashRef(ref: string) {
+  return /^[0-9A-Z]{6,32}$/.test(ref);
+}
+
+export type GcashTxn = {
+  ref: string;
+  amount: number;
+  date: string; // as printed on the statement
+};
+
+export type GcashPosPayment = {
+  order_id: string;
+  branch_id: string;
+  order_no: string | number | null;
+  created_at: string;
+  ref: string;
+  amount: number;
+};
+
+export type ReconRow =
+  | { status: "MATCHED"; ref: string; pos: GcashPosPayment; txn: GcashTxn; amountDiff: number }
+  | { status: "MISSING"; ref: string; pos: GcashPosPayment } // recorded at the counter, not on the statement
+  | { status: "EXTRA"; ref: string; txn: GcashTxn }; // on the statement, no order carries it
+
+// RFC 4180-ish: quoted fields, doubled quotes, commas/newlines inside quotes.
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/**
+ * Reads a GCash transaction history export. Columns are found by header name
+ * ("Reference No.", "Credit"/"Amount", "Date"), so column order doesn't matter.
+ * Only incoming payments (positive credit) are returned.
+ */
+export function parseGcashStatement(text: string): GcashTxn[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const refCol = header.findIndex((h) => h.includes("ref"));
+  const creditCol = header.findIndex((h) => h.includes("credit"));
+  const amountCol = creditCol >= 0 ? creditCol : header.findIndex((h) => h.includes("amount"));
+  const dateCol = header.findIndex((h) => h.includes("date"));
+
+  if (refCol < 0 || amountCol < 0) {
+    throw new Error("CSV needs a reference column and a credit/amount column");
+  }
+
+  const txns: GcashTxn[] = [];
+  for (const r of rows.slice(1)) {
+    const ref = normalizeGcashRef(r[refCol] ?? "");
+    const amount = Number(String(r[amountCol] ?? "").replace(/[₱,\s]/g, ""));
+    if (!ref || !Number.isFinite(amount) || amount <= 0) continue;
+    txns.push({ ref, amount, date: dateCol >= 0 ? (r[dateCol] ?? "").trim() : "" });
+  }
+  return txns;
+}
+
+export function reconcileGcash(pos: GcashPosPayment[], txns: GcashTxn[]): ReconRow[] {
+  const txnByRef = new Map(txns.map((t) => [t.ref, t]));
+  const posRefs = new Set(pos.map((p) => p.ref));
+  const rows: ReconRow[] = [];
+
+  for (const p of pos) {
+    const txn = txnByRef.get(p.ref);
+    if (txn) {
+      rows.push({ status: "MATCHED", ref: p.ref, pos: p, txn, amountDiff: Math.round((txn.amount - p.amount) * 100) / 100 });
+    } else {
+      rows.push({ status: "MISSING", ref: p.ref, pos: p });
+    }
+  }
+  for (const t of txns) {
+    if (!posRefs.has(t.ref)) rows.push({ status: "EXTRA", ref: t.ref, txn: t });
+  }
+  return rows;
+}
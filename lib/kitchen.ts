@@ -0,0 +1,31 @@
+// Kitchen display lifecycle for paid orders (orders.kitchen_status).
+
+export type KitchenStatus = "QUEUED" | "PREPARING" | "READY" | "SERVED";
+
+export const KITCHEN_FLOW: KitchenStatus[] = ["QUEUED", "PREPARING", "READY", "SERVED"];
+
+// column stamped when an order enters each status
+export const KITCHEN_STAMP: Record<KitchenStatus, string> = {
+  QUEUED: "kitchen_queued_at",
+  PREPARING: "kitchen_started_at",
+  READY: "kitchen_ready_at",
+  SERVED: "kitchen_served_at",
+};
+
+export function nextKitchenStatus(s: KitchenStatus | null | undefined): KitchenStatus | null {
+  const i = s ? KITCHEN_FLOW.indexOf(s) : -1;
+  return i >= 0 && i < KITCHEN_FLOW.length - 1 ? KITCHEN_FLOW[i + 1] : null;
+}
+
+/** Seconds from paid (queued) to ready, or null while the ticket is still being made. */
+export function ticketSeconds(o: { kitchen_queued_at?: string | null; kitchen_ready_at?: string | null }) {
+  if (!o.kitchen_queued_at || !o.kitchen_ready_at) return null;
+  const s = (Date.parse(o.kitchen_ready_at) - Date.parse(o.kitchen_queued_at)) / 1000;
+  return Number.isFinite(s) && s >= 0 ? s : null;
+}
+
+export function fmtDuration(seconds: number) {
+  const s = Math.max(0, Math.round(seconds));
+  const m = Math.floor(s / 60);
+  return `${m}:${String(s % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,99 @@
+// Menu item modifiers (sizes, flavors, extra rice...). Shared by the cashier picker
+// and server-side pricing, so both agree on what a valid selection is.
+
+export type ModifierOption = {
+  id: string;
+  name: string;
+  price_delta: number;
+  is_active: boolean;
+};
+
+export type ModifierGroup = {
+  id: string;
+  name: string;
+  min_select: number; // > 0 means required
+  max_select: number;
+  options: ModifierOption[];
+};
+
+// Snapshot stored on order_lines.modifiers, so renamed/repriced options don't rewrite history.
+export type LineModifier = {
+  option_id: string;
+  group_id: string;
+  group: string;
+  name: string;
+  price_delta: number;
+};
+
+export type ModifierGroupRow = {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  is_active: boolean;
+  modifier_options: ModifierOption[] | null;
+};
+
+/** Shapes `menu_item_modifier_groups` rows (with embedded groups/options) into groups per menu item. */
+export function groupModifiersByItem(rows: { menu_item_id: string; sort_order: number | null; modifier_groups: unknown }[]) {
+  const byItem = new Map<string, ModifierGroup[]>();
+  const sorted = [...rows].sort((a, b) => Number(a.sort_order ?? 0) - Number(b.sort_order ?? 0));
+
+  for (const r of sorted) {
+    // embedded many-to-one comes back as an object, but the generic client types it as an array
+    const g = r.modifier_groups as ModifierGroupRow | null;
+    if (!g || !g.is_active) continue;
+    const list = byItem.get(r.menu_item_id) ?? [];
+    list.push({
+      id: g.id,
+      name: g.name,
+      min_select: Number(g.min_select || 0),
+      max_select: Number(g.max_select || 1),
+      options: (g.modifier_options ?? []).map((o) => ({ ...o, price_delta: Number(o.price_delta || 0) })),
+    });
+    byItem.set(r.menu_item_id, list);
+  }
+  return byItem;
+}
+
+/**
+ * Checks chosen option ids against an item's groups: every option must be active and
+ * belong to one of the groups, and each group's min/max must hold.
+ */
+export function checkModifierSelection(
+  groups: ModifierGroup[],
+  optionIds: string[]
+): { modifiers: LineModifier[]; error: null } | { modifiers: null; error: string } {
+  const chosen = new Set(optionIds);
+  if (chosen.size !== optionIds.length) return { modifiers: null, error: "Option chosen twice" };
+
+  const modifiers: LineModifier[] = [];
+  for (const g of groups) {
+    const picked = g.options.filter((o) => chosen.has(o.id));
+    for (const o of picked) {
+      if (!o.is_active) return { modifiers: null, error: `${o.name} is no longer available` };
+      chosen.delete(o.id);
+      modifiers.push({ option_id: o.id, group_id: g.id, group: g.name, name: o.name, price_delta: o.price_delta });
+    }
+    if (picked.length < g.min_select) {
+      return { modifiers: null, error: `Choose ${g.min_select === 1 ? "a" : `at least ${g.min_select}`} ${g.name}` };
+    }
+    if (picked.length > g.max_select) return { modifiers: null, error: `Choose at most ${g.max_select} ${g.name}` };
+  }
+
+  if (chosen.size > 0) return { modifiers: null, error: "Option does not belong to this item" };
+  return { modifiers, error: null };
+}
+
+/** Cart lines for the same item merge only when their options match. */
+export function modifierKey(menuItemId: string, modifiers: Pick<LineModifier, "option_id">[]) {
+  return [menuItemId, ...modifiers.map((m) => m.option_id).sort()].join("|");
+}
+
+export function modifierDelta(modifiers: Pick<LineModifier, "price_delta">[]) {
+  return modifiers.reduce((s, m) => s + Number(m.price_delta || 0), 0);
+}
+
+export function describeModifiers(modifiers: Pick<LineModifier, "name">[] | null | undefined) {
+  return (modifiers ?? []).map((m) => m.name).join(", ");
+}
@@ -0,0 +1,66 @@
+import type { OrderRequestBody } from "@/lib/orderApi";
+
+// Orders rung up while the store connection is down. Kept in IndexedDB so they
+// survive a reload, and replayed oldest-first once we are back online.
+
+export type QueuedOrder = {
+  key: string; // same as body.idempotency_key, so a replay can never double-record
+  queuedAt: string;
+  body: OrderRequestBody;
+  lastError: string | null;
+};
+
+const DB_NAME = "superbecks-pos";
+const DB_VERSION = 1;
+const STORE = "order_queue";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "key" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = fn(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function enqueueOrder(body: OrderRequestBody) {
+  const entry: QueuedOrder = {
+    key: body.idempotency_key,
+    queuedAt: new Date().toISOString(),
+    body,
+    lastError: null,
+  };
+  await withStore("readwrite", (s) => s.put(entry));
+  return entry;
+}
+
+export async function listQueuedOrders() {
+  const rows = await withStore<QueuedOrder[]>("readonly", (s) => s.getAll());
+  return rows.sort((a, b) => (a.queuedAt < b.queuedAt ? -1 : 1));
+}
+
+export async function removeQueuedOrder(key: string) {
+  await withStore("readwrite", (s) => s.delete(key));
+}
+
+export async function markQueuedOrderError(entry: QueuedOrder, message: string) {
+  await withStore("readwrite", (s) => s.put({ ...entry, lastError: message }));
+}
@@ -0,0 +1,97 @@
+import { supabase } from "@/lib/supabase";
+import type { CartLineIn, Discount, DiscountHolder, OrderType } from "@/lib/pricing";
+import type { Tender } from "@/lib/tenders";
+import type { KitchenStatus } from "@/lib/kitchen";
+
+// Body of POST /api/orders, shared by the cashier screen and the offline queue.
+export type OrderRequestBody = {
+  idempotency_key: string;
+  shift_id: string;
+  lines: CartLineIn[];
+  discount: Discount | null; // order-level, applied after line discounts
+  discount_holder: DiscountHolder | null; // required when any SC/PWD discount is used
+  order_type: OrderType;
+  table_no: string | null; // dine-in only
+  platform: string | null; // delivery only, with the platform's own order reference
+  platform_ref: string | null;
+  payments: Tender[];
+  amount_tendered: number | null; // cash handed over for the CASH tender
+  client_created_at: string; // when the cashier rang it up (may be long before a replay)
+  replay?: boolean; // sent from the offline queue: already paid, so recorded as charged if the menu changed
+};
+
+export function newIdempotencyKey() {
+  return crypto.randomUUID();
+}
+
+// The server couldn't give an answer (5xx, or an error page instead of JSON); worth retrying later.
+export class ServerUnavailableError extends Error {}
+
+async function postJson(path: string, body: unknown) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Login required");
+
+  const res = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  // a proxy or host error page isn't JSON; neither it nor a 5xx is a real answer to the request
+  const text = await res.text();
+  let json;
+  try {
+    json = text ? JSON.parse(text) : null;
+  } catch {
+    throw new ServerUnavailableError(`Server unavailable (HTTP ${res.status})`);
+  }
+  if (res.status >= 500) throw new ServerUnavailableError(json?.error || `Server unavailable (HTTP ${res.status})`);
+  return { ok: res.ok, status: res.status, json };
+}
+
+/**
+ * Posts an order with the current session token.
+ * Network failures and server outages reject, 4xx answers resolve with ok=false.
+ */
+export async function postOrder(body: OrderRequestBody) {
+  return postJson("/api/orders", body);
+}
+
+export type ShiftAction =
+  | { action: "open"; opening_float: number }
+  | { action: "cash_move"; kind: "IN" | "OUT"; amount: number; reason: string }
+  | { action: "close"; counted_cash: number };
+
+// Shift changes need the server, so HTTP errors are thrown like any other failure.
+export async function postShiftAction(body: ShiftAction) {
+  const { ok, json } = await postJson("/api/shifts", body);
+  if (!ok) throw new Error(json?.error || "Shift update failed");
+  return json;
+}
+
+// Moves a paid order one step through the kitchen lifecycle; errors are thrown.
+export async function postKitchenBump(orderId: string, to: KitchenStatus) {
+  const { ok, json } = await postJson("/api/kitchen", { order_id: orderId, to });
+  if (!ok) throw new Error(json?.error || "Kitchen update failed");
+  return json;
+}
+
+// Files the end-of-day closing for a branch's business day; errors are thrown.
+export async function postEodClosing(branchId: string, businessDate: string) {
+  const { ok, json } = await postJson("/api/eod", { branch_id: branchId, business_date: businessDate });
+  if (!ok) throw new Error(json?.error || "Closing failed");
+  return json;
+}
+
+// fetch() rejects with a TypeError when the request never reached the server; an outage is just as retryable
+export function isNetworkError(e: unknown) {
+  return (
+    e instanceof TypeError ||
+    e instanceof ServerUnavailableError ||
+    (typeof navigator !== "undefined" && !navigator.onLine)
+  );
+}
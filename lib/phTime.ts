@@ -0,0 +1,79 @@
+/**
+ * We treat UI dates as "Philippines time" (UTC+8), regardless of the PC timezone.
+ * startDate: YYYY-MM-DD (inclusive)
+ * endDate:   YYYY-MM-DD (inclusive) -> converted to exclusive end by adding +1 day at midnight PH
+ */
+export function phDateRangeToUtcIso(startDate: string, endDateInclusive: string) {
+  const offsetMin = 8 * 60;
+
+  const [sy, sm, sd] = startDate.split("-").map(Number);
+  const [ey, em, ed] = endDateInclusive.split("-").map(Number);
+
+  // build PH midnight dates using UTC constructors (avoid local timezone effects)
+  const startPhMs = Date.UTC(sy, sm - 1, sd, 0, 0, 0);
+  const endPhMsInclusive = Date.UTC(ey, em - 1, ed, 0, 0, 0);
+
+  // end exclusive = next day midnight (PH)
+  const endPhExclusiveMs = endPhMsInclusive + 24 * 60 * 60 * 1000;
+
+  // Convert PH time -> UTC time: UTC = PH - 8 hours
+  const startUtcMs = startPhMs - offsetMin * 60 * 1000;
+  const endUtcMs = endPhExclusiveMs - offsetMin * 60 * 1000;
+
+  return {
+    startUtc: new Date(startUtcMs).toISOString(),
+    endUtc: new Date(endUtcMs).toISOString(),
+  };
+}
+
+// "HH:MM" (or Postgres "HH:MM:SS") -> minutes after midnight
+function cutoffMinutes(cutoff: string) {
+  const [hh, mm] = cutoff.split(":").map(Number);
+  return (hh || 0) * 60 + (mm || 0);
+}
+
+/**
+ * Returns YYYY-MM-DD for the current business day in PH time (UTC+8).
+ * `cutoff` is when a branch's business day ends (branch_settings.business_day_cutoff):
+ * with "02:00", 1:30 AM still belongs to the previous day. Same rule as the
+ * business_date_at() SQL function that stamps orders.business_date.
+ */
+export function phTodayYMD(cutoff = "00:00") {
+  const ph = new Date(Date.now() + (8 * 60 - cutoffMinutes(cutoff)) * 60000);
+  const y = ph.getUTCFullYear();
+  const m = String(ph.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(ph.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export function phStartOfWeekYMD(cutoff = "00:00") {
+  // Week starts Monday
+  const today = phTodayYMD(cutoff);
+  const day = new Date(`${today}T00:00:00Z`).getUTCDay(); // 0=Sun ... 6=Sat
+  return addDaysYMD(today, day === 0 ? -6 : 1 - day);
+}
+
+export function phStartOfMonthYMD(cutoff = "00:00") {
+  const today = phTodayYMD(cutoff);
+  const [y, m] = today.split("-");
+  return `${y}-${m}-01`;
+}
+
+// The UTC window of one business day: from its cutoff to the next day's cutoff
+export function businessDayToUtcIso(date: string, cutoff = "00:00") {
+  const hhmm = cutoff.slice(0, 5);
+  return { startUtc: phDateTimeToUtcIso(date, hhmm), endUtc: phDateTimeToUtcIso(addDaysYMD(date, 1), hhmm) };
+}
+
+// PH wall-clock date + time (YYYY-MM-DD, HH:MM) -> UTC ISO, same UTC+8 rule as above
+export function phDateTimeToUtcIso(date: string, time: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  return new Date(Date.UTC(y, m - 1, d, hh || 0, mm || 0, 0) - 8 * 60 * 60 * 1000).toISOString();
+}
+
+// Calendar arithmetic on a YYYY-MM-DD date (no timezone involved)
+export function addDaysYMD(ymd: string, days: number) {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
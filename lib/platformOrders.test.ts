@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { checkPlatformOrder, signWebhook, verifyWebhook } from "@/lib/platformOrders";
+
+const SECRET = "test-secret";
+const NOW = Date.parse("2026-10-19T04:00:00.000Z");
+
+const body = {
+  platform: "GrabFood",
+  store_id: "GF-PQ-01",
+  order_id: "A-1001",
+  placed_at: "2026-10-19T03:55:00.000Z",
+  items: [
+    { code: "WINGS6", qty: 2, unit_price: 199 },
+    { code: "ICEDTEA", qty: 1, unit_price: 45.5 },
+  ],
+  commission: 66.9,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyWebhook", () => {
+  const raw = JSON.stringify(body);
+  const ts = String(NOW / 1000);
+
+  it("accepts a body signed with the shared secret", () => {
+    expect(verifyWebhook(SECRET, ts, signWebhook(SECRET, ts, raw), raw)).toBe(true);
+  });
+
+  it("rejects a wrong secret, a tampered body or a missing header", () => {
+    expect(verifyWebhook(SECRET, ts, signWebhook("other-secret", ts, raw), raw)).toBe(false);
+    expect(verifyWebhook(SECRET, ts, signWebhook(SECRET, ts, raw), raw.replace("199", "1"))).toBe(false);
+    expect(verifyWebhook(SECRET, ts, "sha256=abc", raw)).toBe(false);
+    expect(verifyWebhook(SECRET, null, signWebhook(SECRET, ts, raw), raw)).toBe(false);
+    expect(verifyWebhook(SECRET, ts, null, raw)).toBe(false);
+  });
+
+  it("rejects a timestamp outside the 5 minute window, even when correctly signed", () => {
+    const stale = String(NOW / 1000 - 6 * 60);
+    const ahead = String(NOW / 1000 + 6 * 60);
+    expect(verifyWebhook(SECRET, stale, signWebhook(SECRET, stale, raw), raw)).toBe(false);
+    expect(verifyWebhook(SECRET, ahead, signWebhook(SECRET, ahead, raw), raw)).toBe(false);
+
+    const recent = String(NOW / 1000 - 4 * 60);
+    expect(verifyWebhook(SECRET, recent, signWebhook(SECRET, recent, raw), raw)).toBe(true);
+  });
+
+  it("rejects a signature made for a different timestamp", () => {
+    const other = String(NOW / 1000 - 60);
+    expect(verifyWebhook(SECRET, ts, signWebhook(SECRET, other, raw), raw)).toBe(false);
+  });
+});
+
+describe("checkPlatformOrder", () => {
+  it("normalizes a valid order", () => {
+    const { order, error } = checkPlatformOrder({ ...body, platform: "  GrabFood " });
+    expect(error).toBeNull();
+    expect(order).toEqual({ ...body, placed_at: "2026-10-19T03:55:00.000Z" });
+  });
+
+  it("requires the platform, store and order ids", () => {
+    expect(checkPlatformOrder({ ...body, store_id: "" }).error).toBe("platform, store_id and order_id are required");
+    expect(checkPlatformOrder(null).error).toBe("platform, store_id and order_id are required");
+  });
+
+  it("rejects malformed items", () => {
+    expect(checkPlatformOrder({ ...body, items: [] }).error).toBe("Order has no items");
+    expect(checkPlatformOrder({ ...body, items: "WINGS6" }).error).toBe("Order has no items");
+    for (const bad of [
+      { code: "", qty: 1, unit_price: 10 },
+      { code: "WINGS6", qty: 0, unit_price: 10 },
+      { code: "WINGS6", qty: 1.5, unit_price: 10 },
+      { code: "WINGS6", qty: 1, unit_price: -1 },
+      { code: "WINGS6", qty: 1, unit_price: "free" },
+      null,
+    ]) {
+      expect(checkPlatformOrder({ ...body, items: [bad] }).error).toBe("Invalid order item");
+    }
+  });
+
+  it("rejects a bad placed_at or commission", () => {
+    expect(checkPlatformOrder({ ...body, placed_at: "yesterday" }).error).toBe("Invalid placed_at");
+    expect(checkPlatformOrder({ ...body, commission: -5 }).error).toBe("Invalid commission");
+  });
+
+  it("takes a placed_at in the future or older than a day as received now", () => {
+    const nowIso = new Date(NOW).toISOString();
+    expect(checkPlatformOrder({ ...body, placed_at: "2026-10-20T04:00:00.000Z" }).order?.placed_at).toBe(nowIso);
+    expect(checkPlatformOrder({ ...body, placed_at: "2026-07-01T04:00:00.000Z" }).order?.placed_at).toBe(nowIso);
+    expect(checkPlatformOrder({ ...body, placed_at: "2026-10-18T06:00:00.000Z" }).order?.placed_at).toBe(
+      "2026-10-18T06:00:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,87 @@
+// Delivery-platform webhook: the normalized order payload and its request signature.
+// Platform adapters (or scripts/simulate-platform-order.mjs) POST this shape to
+// /api/platform-orders, signed with PLATFORM_WEBHOOK_SECRET.
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { round2 } from "@/lib/pricing";
+
+export type PlatformOrderItem = {
+  code: string; // the platform's item code, mapped through platform_item_codes
+  qty: number;
+  unit_price: number; // what the platform charged the customer per item
+};
+
+export type PlatformOrder = {
+  platform: string; // e.g. "GrabFood", "foodpanda"
+  store_id: string; // the platform's id for our branch, mapped through platform_stores
+  order_id: string;
+  placed_at: string;
+  items: PlatformOrderItem[];
+  commission: number; // pesos the platform keeps
+};
+
+export const SIGNATURE_HEADER = "x-platform-signature";
+export const TIMESTAMP_HEADER = "x-platform-timestamp";
+
+// a captured request can't be replayed more than this long after it was signed
+const MAX_SKEW_MS = 5 * 60 * 1000;
+
+// placed_at becomes the order's created_at (and so its business day). Platforms send
+// orders as they come in, so anything older than this, or in the future, is taken as
+// received now, the same way /api/orders bounds a cashier's client_created_at.
+const MAX_PLACED_AGE_MS = 24 * 60 * 60 * 1000;
+
+export function signWebhook(secret: string, timestamp: string, rawBody: string) {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex");
+}
+
+export function verifyWebhook(secret: string, timestamp: string | null, signature: string | null, rawBody: string) {
+  if (!timestamp || !signature) return false;
+  const ts = Number(timestamp) * 1000;
+  if (!Number.isFinite(ts) || Math.abs(Date.now() - ts) > MAX_SKEW_MS) return false;
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, rawBody));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+function text(x: unknown, max: number) {
+  const s = typeof x === "string" ? x.trim() : "";
+  return s.length > 0 && s.length <= max ? s : null;
+}
+
+/** Validates a webhook body. Returns an error message instead of throwing. */
+export function checkPlatformOrder(
+  raw: unknown
+): { order: PlatformOrder; error: null } | { order: null; error: string } {
+  const r = (raw ?? {}) as Record<string, unknown>;
+  const platform = text(r.platform, 30);
+  const storeId = text(r.store_id, 60);
+  const orderId = text(r.order_id, 60);
+  if (!platform || !storeId || !orderId) return { order: null, error: "platform, store_id and order_id are required" };
+
+  let placedMs = Date.parse(String(r.placed_at ?? ""));
+  if (!Number.isFinite(placedMs)) return { order: null, error: "Invalid placed_at" };
+  const now = Date.now();
+  if (placedMs > now || now - placedMs > MAX_PLACED_AGE_MS) placedMs = now;
+
+  if (!Array.isArray(r.items) || r.items.length === 0) return { order: null, error: "Order has no items" };
+  const items: PlatformOrderItem[] = [];
+  for (const it of r.items as Record<string, unknown>[]) {
+    const code = text(it?.code, 60);
+    const qty = Number(it?.qty);
+    const unitPrice = round2(Number(it?.unit_price));
+    if (!code || !Number.isInteger(qty) || qty <= 0 || !Number.isFinite(unitPrice) || unitPrice < 0) {
+      return { order: null, error: "Invalid order item" };
+    }
+    items.push({ code, qty, unit_price: unitPrice });
+  }
+
+  const commission = round2(Number(r.commission ?? 0));
+  if (!Number.isFinite(commission) || commission < 0) return { order: null, error: "Invalid commission" };
+
+  return {
+    order: { platform, store_id: storeId, order_id: orderId, placed_at: new Date(placedMs).toISOString(), items, commission },
+    error: null,
+  };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { checkDiscount, discountAmount, priceCart, round2, vatBreakdown, type MenuPriceRow } from "@/lib/pricing";
+
+const sum = (v: { vatable_sales: number; vat_amount: number; vat_exempt_sales: number; zero_rated_sales: number }) =>
+  round2(v.vatable_sales + v.vat_amount + v.vat_exempt_sales + v.zero_rated_sales);
+
+describe("discountAmount", () => {
+  it("takes SC/PWD as VAT removal, then 20% off the VAT-exclusive price", () => {
+    // 112 -> 100 without VAT -> 80 after 20%
+    expect(discountAmount({ kind: "SC", value: 20 }, 112)).toBe(32);
+    expect(discountAmount({ kind: "PWD", value: 20 }, 56)).toBe(16);
+    // 100 / 1.12 = 89.2857… -> 71.43 after 20%
+    expect(discountAmount({ kind: "SC", value: 20 }, 100)).toBe(28.57);
+  });
+
+  it("rounds PERCENT to the centavo", () => {
+    expect(discountAmount({ kind: "PERCENT", value: 10 }, 199.99)).toBe(20);
+    expect(discountAmount({ kind: "PERCENT", value: 12.5 }, 33.33)).toBe(4.17);
+  });
+
+  it("never takes more than the base", () => {
+    expect(discountAmount({ kind: "FIXED", value: 500 }, 300)).toBe(300);
+    expect(discountAmount({ kind: "PERCENT", value: 100 }, 150)).toBe(150);
+    expect(discountAmount({ kind: "FIXED", value: 50 }, 0)).toBe(0);
+    expect(discountAmount(null, 150)).toBe(0);
+  });
+});
+
+describe("checkDiscount", () => {
+  it("treats a missing discount as none", () => {
+    expect(checkDiscount(null)).toEqual({ discount: null, error: null });
+    expect(checkDiscount(undefined)).toEqual({ discount: null, error: null });
+  });
+
+  it("fixes SC/PWD at 20% whatever value is sent", () => {
+    expect(checkDiscount({ kind: "SC", value: 99 })).toEqual({ discount: { kind: "SC", value: 20 }, error: null });
+    expect(checkDiscount({ kind: "PWD" })).toEqual({ discount: { kind: "PWD", value: 20 }, error: null });
+  });
+
+  it("rejects PERCENT above 100, zero or negative values and unknown kinds", () => {
+    expect(checkDiscount({ kind: "PERCENT", value: 100 }).error).toBeNull();
+    expect(checkDiscount({ kind: "PERCENT", value: 100.5 }).error).toBe("Discount cannot be more than 100%");
+    expect(checkDiscount({ kind: "FIXED", value: 0 }).error).toBe("Discount must be greater than 0");
+    expect(checkDiscount({ kind: "FIXED", value: -10 }).error).toBe("Discount must be greater than 0");
+    expect(checkDiscount({ kind: "FIXED", value: "lots" }).error).toBe("Discount must be greater than 0");
+    expect(checkDiscount({ kind: "BOGO", value: 1 }).error).toBe("Invalid discount type");
+  });
+
+  it("rounds the value to the centavo and allows FIXED above any price", () => {
+    expect(checkDiscount({ kind: "FIXED", value: 1.005 }).discount).toEqual({ kind: "FIXED", value: 1.01 });
+    expect(checkDiscount({ kind: "FIXED", value: 10000 }).discount).toEqual({ kind: "FIXED", value: 10000 });
+  });
+});
+
+describe("priceCart", () => {
+  const menu: MenuPriceRow[] = [
+    { id: "wings", name: "Wings", price: 112, is_active: true },
+    { id: "tea", name: "Iced Tea", price: 56, is_active: true },
+  ];
+
+  it("takes line discounts first, then the order discount off the subtotal", () => {
+    const priced = priceCart(
+      [
+        { menu_item_id: "wings", qty: 2, unit_price: 112 },
+        { menu_item_id: "tea", qty: 1, unit_price: 56, discount: { kind: "FIXED", value: 6 } },
+      ],
+      menu,
+      { kind: "PERCENT", value: 10 }
+    );
+    expect(priced.problems).toEqual([]);
+    expect(priced.lines.map((l) => l.line_total)).toEqual([224, 50]);
+    expect(priced.subtotal).toBe(274);
+    expect(priced.discount_amount).toBe(27.4);
+    expect(priced.total).toBe(246.6);
+  });
+
+  it("clamps the total at 0 when a FIXED discount is larger than the order", () => {
+    const priced = priceCart([{ menu_item_id: "tea", qty: 1 }], menu, { kind: "FIXED", value: 500 });
+    expect(priced.discount_amount).toBe(56);
+    expect(priced.total).toBe(0);
+  });
+});
+
+describe("vatBreakdown", () => {
+  it("splits a regular order into VATable sales and 12% VAT", () => {
+    expect(vatBreakdown([{ line_total: 112, discount_type: null }], 112, 112, null)).toEqual({
+      vatable_sales: 100,
+      vat_amount: 12,
+      vat_exempt_sales: 0,
+      zero_rated_sales: 0,
+    });
+  });
+
+  it("makes a whole SC order VAT-exempt, but keeps the order-type fee VATable", () => {
+    const lines = [
+      { line_total: 112, discount_type: null },
+      { line_total: 56, discount_type: null },
+    ];
+    // SC on 168: 150 without VAT, 120 after 20%
+    const itemsTotal = round2(168 - discountAmount({ kind: "SC", value: 20 }, 168));
+    expect(itemsTotal).toBe(120);
+
+    const v = vatBreakdown(lines, 168, itemsTotal, "SC", 10);
+    expect(v).toEqual({ vatable_sales: 8.93, vat_amount: 1.07, vat_exempt_sales: 120, zero_rated_sales: 0 });
+    expect(sum(v)).toBe(130);
+  });
+
+  it("only exempts the SC/PWD lines of a mixed order", () => {
+    const v = vatBreakdown(
+      [
+        { line_total: 112, discount_type: null },
+        { line_total: 40, discount_type: "PWD" },
+      ],
+      152,
+      152,
+      null
+    );
+    expect(v).toEqual({ vatable_sales: 100, vat_amount: 12, vat_exempt_sales: 40, zero_rated_sales: 0 });
+  });
+
+  it("always adds up to the order total, whatever the rounding", () => {
+    const lines = [
+      { line_total: 33.33, discount_type: null },
+      { line_total: 33.33, discount_type: "SC" as const },
+      { line_total: 33.34, discount_type: null },
+    ];
+    for (const [itemsTotal, fee] of [
+      [100, 0],
+      [90, 0],
+      [66.67, 15],
+      [0.01, 0],
+    ]) {
+      expect(sum(vatBreakdown(lines, 100, itemsTotal, null, fee))).toBe(round2(itemsTotal + fee));
+    }
+  });
+});
@@ -0,0 +1,323 @@
+// Server-side order pricing. Pure functions only, so the API route can feed in
+// whatever it loaded from Supabase and the cashier UI can reuse the types.
+
+import { checkModifierSelection, modifierDelta, type LineModifier, type ModifierGroup } from "@/lib/modifiers";
+
+export type MenuPriceRow = {
+  id: string;
+  name: string;
+  price: number;
+  is_active: boolean;
+  modifier_groups?: ModifierGroup[];
+};
+
+// SC/PWD are the statutory Senior Citizen / PWD discounts: VAT-exempt, then 20% off.
+export type DiscountKind = "PERCENT" | "FIXED" | "SC" | "PWD";
+
+export type Discount = {
+  kind: DiscountKind;
+  value: number; // percent for PERCENT, pesos for FIXED, ignored for SC/PWD
+};
+
+export type DiscountHolder = {
+  id_no: string;
+  name: string;
+};
+
+export type OrderType = "DINE_IN" | "TAKE_OUT" | "DELIVERY";
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  DINE_IN: "Dine-in",
+  TAKE_OUT: "Take-out",
+  DELIVERY: "Delivery",
+};
+
+export const DELIVERY_PLATFORMS = ["GrabFood", "foodpanda", "Other"];
+
+// order_type_fees row: charged after discounts, once per order or per item
+export type OrderTypeFee = {
+  order_type: OrderType;
+  label: string;
+  amount: number;
+  per_item: boolean;
+};
+
+// branch_menu_items row: a branch's own price and whether it carries the item at all
+export type BranchMenuOverride = {
+  menu_item_id: string;
+  price: number | null;
+  is_available: boolean;
+};
+
+export type CartLineIn = {
+  menu_item_id: string;
+  qty: number;
+  unit_price?: number; // base price the cashier screen showed; only used to detect stale prices
+  // the screen's option snapshot; names are only used to record an offline replay as charged
+  modifiers?: { option_id: string; price_delta?: number; group_id?: string; group?: string; name?: string }[];
+  discount?: Discount | null;
+};
+
+export type PricedLine = {
+  menu_item_id: string;
+  qty: number;
+  unit_price: number; // base price + option deltas
+  modifiers: LineModifier[];
+  discount_type: DiscountKind | null;
+  discount_value: number | null;
+  discount_amount: number;
+  line_total: number; // after the line discount
+};
+
+export type PricingProblem = {
+  menu_item_id: string;
+  name: string | null;
+  reason: "UNKNOWN_ITEM" | "INACTIVE_ITEM" | "PRICE_CHANGED" | "MODIFIERS_CHANGED";
+  client_price: number | null;
+  server_price: number | null;
+  detail?: string;
+};
+
+export function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+export const VAT_RATE = 0.12;
+export const STATUTORY_DISCOUNT_RATE = 0.2;
+
+export const DISCOUNT_LABELS: Record<DiscountKind, string> = {
+  PERCENT: "Promo",
+  FIXED: "Promo",
+  SC: "Senior Citizen",
+  PWD: "PWD",
+};
+
+export function isOrderType(x: unknown): x is OrderType {
+  return typeof x === "string" && Object.keys(ORDER_TYPE_LABELS).includes(x);
+}
+
+// "Dine-in • Table 4", "Delivery • GrabFood 12-345"; null for orders from before order types
+export function describeOrderType(
+  o: { order_type?: string | null; table_no?: string | null; platform?: string | null; platform_ref?: string | null }
+) {
+  if (!isOrderType(o.order_type)) return null;
+  const extra =
+    o.order_type === "DINE_IN" && o.table_no
+      ? `Table ${o.table_no}`
+      : o.order_type === "DELIVERY"
+        ? [o.platform, o.platform_ref].filter(Boolean).join(" ")
+        : "";
+  return extra ? `${ORDER_TYPE_LABELS[o.order_type]} • ${extra}` : ORDER_TYPE_LABELS[o.order_type];
+}
+
+export function orderTypeFee(fee: OrderTypeFee | null | undefined, itemCount: number) {
+  if (!fee) return 0;
+  return round2(Number(fee.amount || 0) * (fee.per_item ? itemCount : 1));
+}
+
+export function isStatutory(kind: DiscountKind | null | undefined) {
+  return kind === "SC" || kind === "PWD";
+}
+
+export function describeDiscount(d: Discount) {
+  if (isStatutory(d.kind)) return `${DISCOUNT_LABELS[d.kind]} 20% (VAT-exempt)`;
+  if (d.kind === "PERCENT") return `Promo ${d.value}%`;
+  return `Promo ₱${Number(d.value).toFixed(2)} off`;
+}
+
+/** Pesos taken off `base` (a VAT-inclusive amount). Never more than the base itself. */
+export function discountAmount(d: Discount | null | undefined, base: number) {
+  if (!d || base <= 0) return 0;
+  if (isStatutory(d.kind)) {
+    const vatExempt = base / (1 + VAT_RATE);
+    return round2(base - round2(vatExempt * (1 - STATUTORY_DISCOUNT_RATE)));
+  }
+  if (d.kind === "PERCENT") return round2((base * d.value) / 100);
+  return round2(Math.min(d.value, base));
+}
+
+/**
+ * Share of an order-level discount carried by one line: line totals are scaled so
+ * they add up to what the order actually charged. Used for per-item net sales.
+ */
+export function netLineAmount(lineTotal: number, subtotal: number | null | undefined, total: number) {
+  if (!subtotal || subtotal <= 0 || subtotal === total) return Number(lineTotal || 0);
+  return round2((Number(lineTotal || 0) * total) / subtotal);
+}
+
+export type VatBreakdown = {
+  vatable_sales: number; // net of VAT
+  vat_amount: number;
+  vat_exempt_sales: number;
+  zero_rated_sales: number;
+};
+
+/**
+ * Splits what an order charged into the BIR invoice buckets. Menu prices are
+ * VAT-inclusive; SC/PWD lines (or a whole SC/PWD order) are VAT-exempt and the
+ * order-type fee is VATable. The four amounts always add up to the order total.
+ */
+export function vatBreakdown(
+  lines: { line_total: number; discount_type: DiscountKind | null }[],
+  subtotal: number,
+  itemsTotal: number,
+  orderDiscountKind: DiscountKind | null | undefined,
+  fee = 0
+): VatBreakdown {
+  const exempt = round2(
+    lines
+      .filter((l) => isStatutory(orderDiscountKind) || isStatutory(l.discount_type))
+      .reduce((s, l) => s + netLineAmount(l.line_total, subtotal, itemsTotal), 0)
+  );
+  // whatever isn't exempt is VATable, so line rounding can't leave a centavo unaccounted for
+  const vatInclusive = Math.max(0, round2(itemsTotal + fee - exempt));
+  const vatable = round2(vatInclusive / (1 + VAT_RATE));
+  return {
+    vatable_sales: vatable,
+    vat_amount: round2(vatInclusive - vatable),
+    vat_exempt_sales: Math.min(exempt, round2(itemsTotal + fee)),
+    zero_rated_sales: 0,
+  };
+}
+
+/** Validates one discount from a request body. `null`/missing means no discount. */
+export function checkDiscount(
+  raw: unknown
+): { discount: Discount | null; error: null } | { discount: null; error: string } {
+  if (raw == null) return { discount: null, error: null };
+
+  const d = raw as { kind?: unknown; value?: unknown };
+  const kind = d.kind as DiscountKind;
+  if (!(Object.keys(DISCOUNT_LABELS) as DiscountKind[]).includes(kind)) return { discount: null, error: "Invalid discount type" };
+  if (isStatutory(kind)) return { discount: { kind, value: STATUTORY_DISCOUNT_RATE * 100 }, error: null };
+
+  const value = round2(Number(d.value));
+  if (!Number.isFinite(value) || value <= 0) return { discount: null, error: "Discount must be greater than 0" };
+  if (kind === "PERCENT" && value > 100) return { discount: null, error: "Discount cannot be more than 100%" };
+  return { discount: { kind, value }, error: null };
+}
+
+/** Applies a branch's overrides to menu rows: its price (if set) and whether it sells the item. */
+export function applyBranchOverrides<T extends { id: string; price: number }>(items: T[], overrides: BranchMenuOverride[]) {
+  const byItem = new Map(overrides.map((o) => [o.menu_item_id, o]));
+  return items.map((m) => {
+    const o = byItem.get(m.id);
+    return { ...m, price: o?.price == null ? Number(m.price) : Number(o.price), available: o ? o.is_available : true };
+  });
+}
+
+export function describeProblem(p: PricingProblem) {
+  const name = p.name ?? p.menu_item_id;
+  if (p.reason === "UNKNOWN_ITEM") return `${name} is not on the menu`;
+  if (p.reason === "INACTIVE_ITEM") return `${name} is no longer available`;
+  if (p.reason === "MODIFIERS_CHANGED") return `${name}: ${p.detail ?? "options have changed"}`;
+  return `${name} is now ₱${Number(p.server_price).toFixed(2)} (was ₱${Number(p.client_price).toFixed(2)})`;
+}
+
+/**
+ * Re-prices a cart from menu_items. Lines are always priced at the server price;
+ * any unknown/inactive item or a client price that differs is reported as a problem.
+ * Line discounts come off each line, then the order discount comes off the subtotal.
+ */
+export function priceCart(cart: CartLineIn[], menu: MenuPriceRow[], orderDiscount: Discount | null = null) {
+  const byId = new Map(menu.map((m) => [m.id, m]));
+  const lines: PricedLine[] = [];
+  const problems: PricingProblem[] = [];
+
+  for (const l of cart) {
+    const item = byId.get(l.menu_item_id);
+    const clientPrice = l.unit_price === undefined ? null : Number(l.unit_price);
+
+    if (!item) {
+      problems.push({ menu_item_id: l.menu_item_id, name: null, reason: "UNKNOWN_ITEM", client_price: clientPrice, server_price: null });
+      continue;
+    }
+
+    const serverPrice = round2(Number(item.price));
+
+    if (!item.is_active) {
+      problems.push({ menu_item_id: item.id, name: item.name, reason: "INACTIVE_ITEM", client_price: clientPrice, server_price: serverPrice });
+      continue;
+    }
+
+    if (clientPrice !== null && round2(clientPrice) !== serverPrice) {
+      problems.push({ menu_item_id: item.id, name: item.name, reason: "PRICE_CHANGED", client_price: clientPrice, server_price: serverPrice });
+    }
+
+    const chosen = l.modifiers ?? [];
+    const selection = checkModifierSelection(item.modifier_groups ?? [], chosen.map((m) => m.option_id));
+    if (selection.modifiers === null) {
+      problems.push({ menu_item_id: item.id, name: item.name, reason: "MODIFIERS_CHANGED", client_price: clientPrice, server_price: serverPrice, detail: selection.error });
+      continue;
+    }
+    const serverDeltas = new Map(selection.modifiers.map((m) => [m.option_id, round2(m.price_delta)]));
+    const staleOption = chosen.find((m) => m.price_delta !== undefined && round2(Number(m.price_delta)) !== serverDeltas.get(m.option_id));
+    if (staleOption) {
+      problems.push({ menu_item_id: item.id, name: item.name, reason: "MODIFIERS_CHANGED", client_price: clientPrice, server_price: serverPrice, detail: "option prices have changed" });
+      continue;
+    }
+
+    const unitPrice = round2(serverPrice + modifierDelta(selection.modifiers));
+    const gross = round2(unitPrice * l.qty);
+    const lineDiscount = discountAmount(l.discount, gross);
+    lines.push({
+      menu_item_id: item.id,
+      qty: l.qty,
+      unit_price: unitPrice,
+      modifiers: selection.modifiers,
+      discount_type: l.discount?.kind ?? null,
+      discount_value: l.discount?.value ?? null,
+      discount_amount: lineDiscount,
+      line_total: round2(gross - lineDiscount),
+    });
+  }
+
+  const subtotal = round2(lines.reduce((s, l) => s + l.line_total, 0));
+  const orderDiscountAmount = discountAmount(orderDiscount, subtotal);
+  const total = round2(subtotal - orderDiscountAmount);
+  return { lines, subtotal, discount_amount: orderDiscountAmount, total, problems };
+}
+
+/**
+ * Prices an offline replay at what the cashier charged, for when priceCart reports the
+ * menu has moved on since: the customer already paid, so the sale is recorded as rung up
+ * (and flagged by the caller) rather than rejected. Anything the client didn't send falls
+ * back to the current menu.
+ */
+export function priceCartAsCharged(cart: CartLineIn[], menu: MenuPriceRow[], orderDiscount: Discount | null = null) {
+  const byId = new Map(menu.map((m) => [m.id, m]));
+
+  const lines: PricedLine[] = cart.map((l) => {
+    const item = byId.get(l.menu_item_id);
+    const groups = item?.modifier_groups ?? [];
+    const modifiers: LineModifier[] = (l.modifiers ?? []).map((m) => {
+      const group = groups.find((g) => g.options.some((o) => o.id === m.option_id));
+      const option = group?.options.find((o) => o.id === m.option_id);
+      return {
+        option_id: m.option_id,
+        group_id: m.group_id ?? group?.id ?? "",
+        group: m.group ?? group?.name ?? "",
+        name: m.name ?? option?.name ?? "Option",
+        price_delta: round2(Number(m.price_delta ?? option?.price_delta ?? 0)),
+      };
+    });
+
+    const unitPrice = round2(Number(l.unit_price ?? item?.price ?? 0) + modifierDelta(modifiers));
+    const gross = round2(unitPrice * l.qty);
+    const lineDiscount = discountAmount(l.discount, gross);
+    return {
+      menu_item_id: l.menu_item_id,
+      qty: l.qty,
+      unit_price: unitPrice,
+      modifiers,
+      discount_type: l.discount?.kind ?? null,
+      discount_value: l.discount?.value ?? null,
+      discount_amount: lineDiscount,
+      line_total: round2(gross - lineDiscount),
+    };
+  });
+
+  const subtotal = round2(lines.reduce((s, l) => s + l.line_total, 0));
+  const orderDiscountAmount = discountAmount(orderDiscount, subtotal);
+  return { lines, subtotal, discount_amount: orderDiscountAmount, total: round2(subtotal - orderDiscountAmount) };
+}
@@ -0,0 +1,116 @@
+import { supabase } from "@/lib/supabase";
+import type { Tender } from "@/lib/tenders";
+import { describeDiscount, describeOrderType, type DiscountKind, type VatBreakdown } from "@/lib/pricing";
+import { describeModifiers, type LineModifier } from "@/lib/modifiers";
+
+export type ReceiptLine = {
+  name: string;
+  options: string; // chosen modifiers, comma separated
+  qty: number;
+  unitPrice: number;
+  discountLabel: string | null;
+  discountAmount: number;
+  lineTotal: number;
+};
+
+export type Receipt = {
+  orderId: string;
+  branchName: string;
+  orderNo: string | number | null;
+  invoiceNo: number | null; // BIR sales invoice series, per branch
+  businessDate: string | null;
+  createdAt: string;
+  paymentType: string;
+  status: string | null;
+  orderType: string | null; // e.g. "Dine-in • Table 4"
+  lines: ReceiptLine[];
+  subtotal: number;
+  discountLabel: string | null;
+  discountAmount: number;
+  discountHolder: string | null; // SC/PWD cardholder: "name (ID no.)"
+  feeLabel: string | null;
+  feeAmount: number;
+  total: number;
+  vat: VatBreakdown | null; // null for orders from before the VAT breakdown
+  amountTendered: number | null;
+  changeDue: number | null;
+  payments: Tender[];
+};
+
+function discountLabel(kind: DiscountKind | null, value: number | null) {
+  return kind ? describeDiscount({ kind, value: Number(value || 0) }) : null;
+}
+
+export async function loadReceipt(orderId: string): Promise<Receipt> {
+  const { data: o, error: oErr } = await supabase
+    .from("orders")
+    .select(
+      "id,branch_id,order_no,business_date,created_at,payment_type,total_amount,status,amount_tendered,change_due,subtotal_amount,discount_type,discount_value,discount_amount,discount_id_no,discount_holder,order_type,table_no,platform,platform_ref,fee_label,fee_amount,invoice_no,vatable_sales,vat_amount,vat_exempt_sales,zero_rated_sales"
+    )
+    .eq("id", orderId)
+    .single();
+  if (oErr) throw new Error(oErr.message);
+
+  const [{ data: b, error: bErr }, { data: l, error: lErr }, { data: p, error: pErr }] = await Promise.all([
+    supabase.from("branches").select("name").eq("id", o.branch_id).maybeSingle(),
+    supabase.from("order_lines").select("qty,unit_price,modifiers,discount_type,discount_value,discount_amount,line_total,menu_items(name)").eq("order_id", orderId),
+    supabase.from("order_payments").select("method,amount,reference").eq("order_id", orderId).order("created_at"),
+  ]);
+  if (bErr) throw new Error(bErr.message);
+  if (lErr) throw new Error(lErr.message);
+  if (pErr) throw new Error(pErr.message);
+
+  return {
+    orderId: o.id,
+    branchName: b?.name ?? "Superbecks",
+    orderNo: o.order_no,
+    invoiceNo: o.invoice_no == null ? null : Number(o.invoice_no),
+    businessDate: o.business_date,
+    createdAt: o.created_at,
+    paymentType: o.payment_type,
+    status: o.status,
+    orderType: describeOrderType(o),
+    lines: (l ?? []).map((x) => {
+      // embedded many-to-one comes back as an object, but the generic client types it as an array
+      const item = x.menu_items as unknown as { name: string } | null;
+      return {
+        name: item?.name ?? "Unknown",
+        options: describeModifiers(x.modifiers as LineModifier[] | null),
+        qty: Number(x.qty),
+        unitPrice: Number(x.unit_price),
+        discountLabel: discountLabel(x.discount_type, x.discount_value),
+        discountAmount: Number(x.discount_amount || 0),
+        lineTotal: Number(x.line_total),
+      };
+    }),
+    subtotal: Number(o.subtotal_amount ?? o.total_amount),
+    discountLabel: discountLabel(o.discount_type, o.discount_value),
+    discountAmount: Number(o.discount_amount || 0),
+    discountHolder: o.discount_id_no ? `${o.discount_holder ?? ""} (${o.discount_id_no})`.trim() : null,
+    feeLabel: o.fee_label ?? null,
+    feeAmount: Number(o.fee_amount || 0),
+    total: Number(o.total_amount),
+    vat:
+      o.vatable_sales == null
+        ? null
+        : {
+            vatable_sales: Number(o.vatable_sales),
+            vat_amount: Number(o.vat_amount || 0),
+            vat_exempt_sales: Number(o.vat_exempt_sales || 0),
+            zero_rated_sales: Number(o.zero_rated_sales || 0),
+          },
+    amountTendered: o.amount_tendered == null ? null : Number(o.amount_tendered),
+    changeDue: o.change_due == null ? null : Number(o.change_due),
+    payments: (p ?? []).map((t) => ({ method: t.method, amount: Number(t.amount), reference: t.reference ?? null })),
+  };
+}
+
+// SI numbers are printed zero-padded, the way a pre-printed invoice series looks
+export function fmtInvoiceNo(n: number | null) {
+  return n == null ? "—" : String(n).padStart(8, "0");
+}
+
+// Receipt timestamps are always shown in PH time, whatever the tablet's timezone is.
+export function fmtReceiptTime(iso: string) {
+  return new Date(iso).toLocaleString("en-PH", { timeZone: "Asia/Manila", hour12: false });
+}
@@ -0,0 +1,49 @@
+// How many of a menu item a branch can still sell, worked out the same way the PAID
+// trigger deducts stock: bundles through their components, items with a recipe
+// through ingredient_onhand, everything else through inventory_onhand.
+
+export type RecipeQty = { ingredient_id: string; qty: number }; // base units per item
+export type ComponentQty = { component_item_id: string; qty: number };
+
+export type BranchStock = {
+  onhand: Map<string, number>; // menu_item_id -> finished goods on hand
+  ingredientOnhand: Map<string, number>; // ingredient_id -> base units on hand
+  recipes: Map<string, RecipeQty[]>;
+  components: Map<string, ComponentQty[]>;
+};
+
+export function groupBy<T>(rows: T[], key: (r: T) => string) {
+  const out = new Map<string, T[]>();
+  for (const r of rows) {
+    const k = key(r);
+    const list = out.get(k);
+    if (list) list.push(r);
+    else out.set(k, [r]);
+  }
+  return out;
+}
+
+// null = not stock-tracked here (never stocked at the branch, no recipe)
+function leafQty(itemId: string, s: BranchStock): number | null {
+  const recipe = s.recipes.get(itemId);
+  if (recipe && recipe.length > 0) {
+    return Math.min(...recipe.map((r) => Math.floor((s.ingredientOnhand.get(r.ingredient_id) ?? 0) / Number(r.qty))));
+  }
+  const onHand = s.onhand.get(itemId);
+  return onHand === undefined ? null : Math.floor(onHand);
+}
+
+export function sellableQty(itemId: string, s: BranchStock): number | null {
+  const parts = s.components.get(itemId);
+  if (!parts || parts.length === 0) return leafQty(itemId, s);
+
+  // one level deep, like the trigger; untracked components don't limit the bundle
+  let best: number | null = null;
+  for (const p of parts) {
+    const q = leafQty(p.component_item_id, s);
+    if (q === null) continue;
+    const n = Math.floor(q / Number(p.qty));
+    best = best === null ? n : Math.min(best, n);
+  }
+  return best;
+}
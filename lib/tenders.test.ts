@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { checkTenders, paymentTypeOf } from "@/lib/tenders";
+
+describe("checkTenders", () => {
+  it("accepts tenders that add up to the total", () => {
+    const res = checkTenders(
+      [
+        { method: "CASH", amount: 100 },
+        { method: "GCASH", amount: 50.5, reference: "1234 5678 90123" },
+      ],
+      150.5
+    );
+    expect(res.error).toBeNull();
+    expect(res.tenders).toEqual([
+      { method: "CASH", amount: 100, reference: null },
+      { method: "GCASH", amount: 50.5, reference: "1234567890123" },
+    ]);
+  });
+
+  it("rejects missing payments and totals that don't match", () => {
+    expect(checkTenders(null, 100).error).toBe("Missing payments");
+    expect(checkTenders([], 100).error).toBe("Missing payments");
+    expect(checkTenders([{ method: "CASH", amount: 90 }], 100).error).toMatch(/do not add up/);
+  });
+
+  it("takes a zero-total order with no tenders", () => {
+    const res = checkTenders([], 0);
+    expect(res).toEqual({ tenders: [], error: null });
+    expect(paymentTypeOf(res.tenders ?? [])).toBe("CASH");
+  });
+
+  it("takes a zero-total offline order queued with a single ₱0 payment_type", () => {
+    expect(checkTenders([{ method: "GCASH", amount: 0, reference: null }], 0)).toEqual({ tenders: [], error: null });
+  });
+
+  it("still rejects money tendered against a zero total", () => {
+    expect(checkTenders([{ method: "CASH", amount: 20 }], 0).error).toMatch(/do not add up/);
+  });
+});
@@ -0,0 +1,68 @@
+import { round2 } from "@/lib/pricing";
+import { isValidGcashRef, normalizeGcashRef } from "@/lib/gcash";
+
+// PLATFORM = paid through a delivery platform (webhook orders only, never from the cashier)
+export type TenderMethod = "CASH" | "GCASH" | "PLATFORM";
+
+export type Tender = {
+  method: TenderMethod;
+  amount: number;
+  reference: string | null; // GCash reference number, or the platform's order id
+};
+
+export const TENDER_LABELS: Record<TenderMethod, string> = {
+  CASH: "Cash",
+  GCASH: "GCash",
+  PLATFORM: "Platform",
+};
+
+// orders.payment_type is a summary of the tenders; a free (zero-total) order has none and counts as CASH
+export function paymentTypeOf(tenders: Tender[]): TenderMethod | "SPLIT" {
+  if (tenders.length === 0) return "CASH";
+  const methods = new Set(tenders.map((t) => t.method));
+  return methods.size === 1 ? tenders[0].method : "SPLIT";
+}
+
+export function sumTenders(tenders: Tender[], method?: TenderMethod) {
+  return round2(tenders.filter((t) => !method || t.method === method).reduce((s, t) => s + Number(t.amount || 0), 0));
+}
+
+/**
+ * Normalizes tenders coming from a request and checks they pay exactly `total`.
+ * A discount can bring the total to ₱0; such an order takes no tenders at all.
+ * Returns an error message instead of throwing so routes can answer 400 directly.
+ */
+export function checkTenders(raw: unknown, total: number): { tenders: Tender[]; error: null } | { tenders: null; error: string } {
+  if (!Array.isArray(raw)) return { tenders: null, error: "Missing payments" };
+  if (round2(total) === 0) {
+    // offline orders queued with a single payment_type carry one ₱0 tender
+    if (raw.every((t) => round2(Number(t?.amount)) === 0)) return { tenders: [], error: null };
+  } else if (raw.length === 0) {
+    return { tenders: null, error: "Missing payments" };
+  }
+
+  const tenders: Tender[] = [];
+  const refs = new Set<string>();
+
+  for (const t of raw) {
+    const method = t?.method;
+    const amount = round2(Number(t?.amount));
+    if (method !== "CASH" && method !== "GCASH") return { tenders: null, error: "Invalid payment method" };
+    if (!Number.isFinite(amount) || amount <= 0) return { tenders: null, error: "Payment amounts must be greater than 0" };
+
+    let reference: string | null = null;
+    if (method === "GCASH") {
+      reference = normalizeGcashRef(String(t?.reference ?? ""));
+      if (!isValidGcashRef(reference)) return { tenders: null, error: "Enter the GCash reference number" };
+      if (refs.has(reference)) return { tenders: null, error: `GCash reference ${reference} is entered twice` };
+      refs.add(reference);
+    }
+    tenders.push({ method, amount, reference });
+  }
+
+  const paid = sumTenders(tenders);
+  if (paid !== round2(total)) {
+    return { tenders: null, error: `Payments ₱${paid.toFixed(2)} do not add up to the total ₱${round2(total).toFixed(2)}` };
+  }
+  return { tenders, error: null };
+}
@@ -0,0 +1,50 @@
+// Units of measure for ingredient stock. Stock is always kept in the ingredient's
+// base unit (g, ml or pcs); anything entered in another unit is converted first.
+
+export type BaseUnit = "g" | "ml" | "pcs";
+
+export const BASE_UNITS: BaseUnit[] = ["g", "ml", "pcs"];
+
+// Per-ingredient pack sizes, e.g. 1 "pack" of buns = 12 pcs, 1 "sack" of rice = 25000 g.
+export type IngredientUnit = {
+  ingredient_id: string;
+  unit: string;
+  factor: number; // base units in one `unit`
+};
+
+export type UnitOption = { unit: string; factor: number };
+
+const STANDARD_UNITS: Record<BaseUnit, UnitOption[]> = {
+  g: [
+    { unit: "g", factor: 1 },
+    { unit: "kg", factor: 1000 },
+  ],
+  ml: [
+    { unit: "ml", factor: 1 },
+    { unit: "L", factor: 1000 },
+  ],
+  pcs: [
+    { unit: "pcs", factor: 1 },
+    { unit: "dozen", factor: 12 },
+  ],
+};
+
+/** Units a quantity of this ingredient can be entered in, base unit first. */
+export function unitsFor(ingredientId: string, baseUnit: BaseUnit, custom: IngredientUnit[]): UnitOption[] {
+  const own = custom
+    .filter((u) => u.ingredient_id === ingredientId)
+    .map((u) => ({ unit: u.unit, factor: Number(u.factor) }));
+  const standard = STANDARD_UNITS[baseUnit] ?? [{ unit: baseUnit, factor: 1 }];
+  return [...standard, ...own.filter((u) => !standard.some((s) => s.unit === u.unit))];
+}
+
+/** Converts `qty` in `unit` to the ingredient's base unit; null when the unit doesn't apply. */
+export function toBaseQty(qty: number, unit: string, options: UnitOption[]) {
+  const opt = options.find((o) => o.unit === unit);
+  if (!opt) return null;
+  return Math.round(qty * opt.factor * 1000) / 1000;
+}
+
+export function fmtQty(qty: number, unit: string) {
+  return `${Number(qty || 0).toLocaleString(undefined, { maximumFractionDigits: 3 })} ${unit}`;
+}
@@ -0,0 +1,93 @@
+import { round2 } from "@/lib/pricing";
+
+export type ShiftRow = {
+  id: string;
+  branch_id: string;
+  cashier_id: string;
+  opened_at: string;
+  opening_float: number;
+  closed_at: string | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  over_short: number | null;
+  report: ZReport | null;
+};
+
+export type ShiftCashMove = {
+  kind: "IN" | "OUT";
+  amount: number;
+  reason: string | null;
+  created_at: string;
+};
+
+export type ZReport = {
+  shift_id: string;
+  branch_id: string;
+  cashier_id: string;
+  opened_at: string;
+  closed_at: string;
+  order_count: number;
+  gross_sales: number;
+  cash_sales: number;
+  gcash_sales: number;
+  void_count: number;
+  void_total: number;
+  opening_float: number;
+  cash_in: number;
+  cash_out: number;
+  expected_cash: number;
+  counted_cash: number;
+  over_short: number; // counted - expected: positive = over, negative = short
+};
+
+type ShiftOrder = { id: string; status: string | null; total_amount: number };
+type ShiftTender = { order_id: string; method: "CASH" | "GCASH"; amount: number };
+
+/**
+ * Z-report for a shift. Only PAID orders count toward sales and the drawer;
+ * VOIDED orders are reported separately and assumed refunded.
+ */
+export function buildZReport(args: {
+  shift: Pick<ShiftRow, "id" | "branch_id" | "cashier_id" | "opened_at" | "opening_float">;
+  closedAt: string;
+  countedCash: number;
+  orders: ShiftOrder[];
+  tenders: ShiftTender[];
+  moves: Pick<ShiftCashMove, "kind" | "amount">[];
+}): ZReport {
+  const { shift, orders, tenders, moves } = args;
+
+  const paid = orders.filter((o) => o.status === "PAID");
+  const voided = orders.filter((o) => o.status === "VOIDED");
+  const paidIds = new Set(paid.map((o) => o.id));
+  const paidTenders = tenders.filter((t) => paidIds.has(t.order_id));
+
+  const sum = (xs: number[]) => round2(xs.reduce((s, x) => s + Number(x || 0), 0));
+
+  const cashSales = sum(paidTenders.filter((t) => t.method === "CASH").map((t) => t.amount));
+  const cashIn = sum(moves.filter((m) => m.kind === "IN").map((m) => m.amount));
+  const cashOut = sum(moves.filter((m) => m.kind === "OUT").map((m) => m.amount));
+  const openingFloat = round2(Number(shift.opening_float || 0));
+  const expectedCash = round2(openingFloat + cashSales + cashIn - cashOut);
+  const countedCash = round2(args.countedCash);
+
+  return {
+    shift_id: shift.id,
+    branch_id: shift.branch_id,
+    cashier_id: shift.cashier_id,
+    opened_at: shift.opened_at,
+    closed_at: args.closedAt,
+    order_count: paid.length,
+    gross_sales: sum(paid.map((o) => o.total_amount)),
+    cash_sales: cashSales,
+    gcash_sales: sum(paidTenders.filter((t) => t.method === "GCASH").map((t) => t.amount)),
+    void_count: voided.length,
+    void_total: sum(voided.map((o) => o.total_amount)),
+    opening_float: openingFloat,
+    cash_in: cashIn,
+    cash_out: cashOut,
+    expected_cash: expectedCash,
+    counted_cash: countedCash,
+    over_short: round2(countedCash - expectedCash),
+  };
+}
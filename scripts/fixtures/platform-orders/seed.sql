@@ -0,0 +1,19 @@
+-- Maps the simulator fixtures onto a local database: both fixture stores go to the
+-- first branch, item codes to the first active menu items. Run once, e.g.
+--   psql "$DATABASE_URL" -f scripts/fixtures/platform-orders/seed.sql
+
+insert into public.platform_stores (platform, store_id, branch_id)
+select s.platform, s.store_id, (select id from public.branches order by name limit 1)
+from (values ('GrabFood', 'GF-SIM-01'), ('foodpanda', 'FP-SIM-01')) as s (platform, store_id)
+on conflict (platform, store_id) do nothing;
+
+insert into public.platform_item_codes (platform, code, menu_item_id)
+select c.platform, c.code, m.id
+from (
+  values ('GrabFood', 'GF-ITEM-1', 0), ('GrabFood', 'GF-ITEM-2', 1),
+    ('foodpanda', 'FP-ITEM-1', 0), ('foodpanda', 'FP-ITEM-2', 1), ('foodpanda', 'FP-ITEM-3', 2)
+) as c (platform, code, n)
+join (
+  select id, row_number() over (order by name) - 1 as n from public.menu_items where is_active
+) m on m.n = c.n
+on conflict (platform, code) do nothing;
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+// Replays delivery-platform fixture orders against /api/platform-orders, signed the
+// same way lib/platformOrders.ts verifies them. Talks only to the local dev server.
+//
+//   node scripts/simulate-platform-order.mjs                      # every fixture
+//   node scripts/simulate-platform-order.mjs grabfood-basic.json  # one fixture
+//
+// Options:
+//   --url <base>      app to post to (default http://localhost:3000)
+//   --fresh           suffix order ids with a timestamp, so each run is a new order
+//   --bad-signature   sign with the wrong secret; the route must answer 401
+//   --dry-run         print the signed requests without sending them
+//
+// PLATFORM_WEBHOOK_SECRET is read from the environment or .env.local.
+
+import { createHmac } from "node:crypto";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const here = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(here, "fixtures", "platform-orders");
+
+const args = process.argv.slice(2);
+const flag = (name) => args.includes(name);
+const option = (name, fallback) => {
+  const i = args.indexOf(name);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+
+function secretFromEnv() {
+  if (process.env.PLATFORM_WEBHOOK_SECRET) return process.env.PLATFORM_WEBHOOK_SECRET;
+  const envFile = join(here, "..", ".env.local");
+  if (!existsSync(envFile)) return null;
+  const line = readFileSync(envFile, "utf8")
+    .split("\n")
+    .find((l) => l.startsWith("PLATFORM_WEBHOOK_SECRET="));
+  return line ? line.slice("PLATFORM_WEBHOOK_SECRET=".length).trim().replace(/^["']|["']$/g, "") : null;
+}
+
+function sign(secret, timestamp, rawBody) {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex");
+}
+
+const baseUrl = option("--url", "http://localhost:3000");
+const secret = secretFromEnv();
+if (!secret) {
+  console.error("PLATFORM_WEBHOOK_SECRET is not set (environment or .env.local)");
+  process.exit(1);
+}
+
+const named = args.filter((a, i) => a.endsWith(".json") && args[i - 1] !== "--url");
+const files = (named.length > 0 ? named : readdirSync(fixturesDir).filter((f) => f.endsWith(".json"))).map((f) =>
+  existsSync(f) ? f : join(fixturesDir, basename(f))
+);
+
+let failed = 0;
+for (const file of files) {
+  const order = JSON.parse(readFileSync(file, "utf8"));
+  if (order.placed_at === "now") order.placed_at = new Date().toISOString();
+  if (flag("--fresh")) order.order_id = `${order.order_id}-${Date.now()}`;
+
+  const rawBody = JSON.stringify(order);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers = {
+    "Content-Type": "application/json",
+    "x-platform-timestamp": timestamp,
+    "x-platform-signature": sign(flag("--bad-signature") ? `${secret}-wrong` : secret, timestamp, rawBody),
+  };
+
+  console.log(`\n${basename(file)} → ${order.platform} ${order.order_id}`);
+  if (flag("--dry-run")) {
+    console.log(JSON.stringify({ url: `${baseUrl}/api/platform-orders`, headers, body: order }, null, 2));
+    continue;
+  }
+
+  try {
+    const res = await fetch(`${baseUrl}/api/platform-orders`, { method: "POST", headers, body: rawBody });
+    const json = await res.json().catch(() => null);
+    console.log(res.status, JSON.stringify(json));
+  } catch (e) {
+    failed += 1;
+    console.error(`Could not reach ${baseUrl}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,44 @@
+-- Atomic order placement used by POST /api/orders.
+--
+-- Writes the order header, its lines and the PAID status in one transaction so a
+-- dropped connection can no longer leave a half-written order behind. The status
+-- still goes NEW -> PAID inside the function so the existing order_no and
+-- inventory deduction triggers fire exactly as they did for the client flow.
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  insert into public.orders (branch_id, created_by, payment_type, status, total_amount)
+  values (v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount)
+  returning * into v_order;
+
+  insert into public.order_lines (order_id, menu_item_id, qty, unit_price, line_total)
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date
+  );
+end;
+$$;
+
+-- Only the service role (API routes) may call this.
+revoke all on function public.place_order(jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,62 @@
+-- Client-generated idempotency keys on orders.
+--
+-- The cashier screen queues orders in IndexedDB while offline and replays them
+-- later; a replay of an order that already reached the server must return the
+-- original row instead of recording the sale twice.
+
+alter table public.orders add column if not exists idempotency_key text;
+
+create unique index if not exists orders_idempotency_key_key
+  on public.orders (idempotency_key)
+  where idempotency_key is not null;
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is not null then
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if found then
+      return jsonb_build_object(
+        'id', v_order.id,
+        'order_no', v_order.order_no,
+        'business_date', v_order.business_date,
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  insert into public.orders (branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at)
+  values (v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()))
+  returning * into v_order;
+
+  insert into public.order_lines (order_id, menu_item_id, qty, unit_price, line_total)
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb) from public, anon, authenticated;
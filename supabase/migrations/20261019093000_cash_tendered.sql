@@ -0,0 +1,87 @@
+-- Cash tendered and change due on CASH orders.
+--
+-- Both are null for GCASH. The API computes change from the server-priced total and
+-- refuses checkout when the tendered amount does not cover it; the checks below
+-- keep the stored pair consistent even for rows written outside the API.
+
+alter table public.orders add column if not exists amount_tendered numeric(12,2);
+alter table public.orders add column if not exists change_due numeric(12,2);
+
+alter table public.orders drop constraint if exists orders_cash_tendered_check;
+alter table public.orders add constraint orders_cash_tendered_check check (
+  amount_tendered is null
+  or (amount_tendered >= total_amount and change_due = amount_tendered - total_amount)
+);
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (order_id, menu_item_id, qty, unit_price, line_total)
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb) from public, anon, authenticated;
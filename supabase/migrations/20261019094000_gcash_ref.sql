@@ -0,0 +1,89 @@
+-- GCash reference numbers on orders.
+--
+-- The cashier keys in the reference from the customer's GCash confirmation so the
+-- owner can reconcile against the GCash statement. A reference can only pay for
+-- one order. Older GCASH orders have no reference, so the "required" check only
+-- applies to new rows.
+
+alter table public.orders add column if not exists gcash_ref text;
+
+create unique index if not exists orders_gcash_ref_key
+  on public.orders (gcash_ref)
+  where gcash_ref is not null;
+
+alter table public.orders drop constraint if exists orders_gcash_ref_check;
+alter table public.orders add constraint orders_gcash_ref_check
+  check (payment_type <> 'GCASH' or gcash_ref is not null) not valid;
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, gcash_ref
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.gcash_ref
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (order_id, menu_item_id, qty, unit_price, line_total)
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,152 @@
+-- Split tenders: an order can be paid part CASH, part GCASH.
+--
+-- order_payments holds one row per tender and is now the source of truth for how
+-- an order was paid; orders.payment_type becomes a summary (CASH, GCASH or SPLIT)
+-- and GCash references move from orders.gcash_ref onto the GCASH tender.
+--
+-- Void + replace copies the original tenders onto the replacement order; those
+-- copies point back at their source through carried_from so the reference stays
+-- unique among tenders that were actually collected.
+
+create table if not exists public.order_payments (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  method text not null check (method in ('CASH', 'GCASH')),
+  amount numeric(12,2) not null check (amount >= 0),
+  reference text,
+  carried_from uuid references public.order_payments (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_payments_order_id_idx on public.order_payments (order_id);
+
+create unique index if not exists order_payments_gcash_reference_key
+  on public.order_payments (reference)
+  where method = 'GCASH' and carried_from is null;
+
+-- one tender per existing order, from what the order header recorded
+insert into public.order_payments (order_id, method, amount, reference)
+select o.id, o.payment_type, o.total_amount, o.gcash_ref
+from public.orders o
+where o.payment_type in ('CASH', 'GCASH')
+  and not exists (select 1 from public.order_payments p where p.order_id = o.id);
+
+-- older GCASH orders never captured a reference; new GCASH tenders must
+alter table public.order_payments drop constraint if exists order_payments_gcash_reference_check;
+alter table public.order_payments add constraint order_payments_gcash_reference_check
+  check (method <> 'GCASH' or reference is not null or carried_from is not null) not valid;
+
+alter table public.order_payments enable row level security;
+
+-- readable wherever the order itself is readable (owner dashboard, cashier receipts)
+drop policy if exists order_payments_select on public.order_payments;
+create policy order_payments_select on public.order_payments
+  for select to authenticated
+  using (exists (select 1 from public.orders o where o.id = order_payments.order_id));
+
+-- owners copy tenders onto a replacement order
+drop policy if exists order_payments_owner_insert on public.order_payments;
+create policy order_payments_owner_insert on public.order_payments
+  for insert to authenticated
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+alter table public.orders drop constraint if exists orders_payment_type_check;
+alter table public.orders add constraint orders_payment_type_check
+  check (payment_type in ('CASH', 'GCASH', 'SPLIT'));
+
+-- the reference now lives on the tender
+alter table public.orders drop constraint if exists orders_gcash_ref_check;
+comment on column public.orders.gcash_ref is 'Deprecated: see order_payments.reference';
+
+-- tendered cash covers the CASH tender, which is less than the total on a split order
+alter table public.orders drop constraint if exists orders_cash_tendered_check;
+alter table public.orders add constraint orders_cash_tendered_check
+  check (amount_tendered is null or change_due >= 0);
+
+drop function if exists public.place_order(jsonb, jsonb);
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  if jsonb_typeof(p_payments) <> 'array' or jsonb_array_length(p_payments) = 0 then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (order_id, menu_item_id, qty, unit_price, line_total)
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,145 @@
+-- Cashier shifts with cash drawer reconciliation.
+--
+-- A cashier opens a shift with a starting float, records cash-in/cash-out while
+-- it is open, and closes it with the counted cash. The Z-report computed at close
+-- is frozen into cashier_shifts.report so later voids don't rewrite history.
+-- All writes go through /api/shifts (service role); clients only read.
+
+create table if not exists public.cashier_shifts (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references public.branches (id),
+  cashier_id uuid not null references auth.users (id),
+  opened_at timestamptz not null default now(),
+  opening_float numeric(12,2) not null check (opening_float >= 0),
+  closed_at timestamptz,
+  counted_cash numeric(12,2),
+  expected_cash numeric(12,2),
+  over_short numeric(12,2),
+  report jsonb,
+  check ((closed_at is null) = (counted_cash is null))
+);
+
+-- at most one open shift per cashier
+create unique index if not exists cashier_shifts_one_open_key
+  on public.cashier_shifts (cashier_id)
+  where closed_at is null;
+
+create index if not exists cashier_shifts_branch_opened_idx on public.cashier_shifts (branch_id, opened_at desc);
+
+create table if not exists public.shift_cash_moves (
+  id uuid primary key default gen_random_uuid(),
+  shift_id uuid not null references public.cashier_shifts (id) on delete cascade,
+  kind text not null check (kind in ('IN', 'OUT')),
+  amount numeric(12,2) not null check (amount > 0),
+  reason text,
+  created_by uuid references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists shift_cash_moves_shift_id_idx on public.shift_cash_moves (shift_id);
+
+alter table public.orders add column if not exists shift_id uuid references public.cashier_shifts (id);
+create index if not exists orders_shift_id_idx on public.orders (shift_id);
+
+alter table public.cashier_shifts enable row level security;
+alter table public.shift_cash_moves enable row level security;
+
+drop policy if exists cashier_shifts_select on public.cashier_shifts;
+create policy cashier_shifts_select on public.cashier_shifts
+  for select to authenticated
+  using (
+    cashier_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner')
+  );
+
+drop policy if exists shift_cash_moves_select on public.shift_cash_moves;
+create policy shift_cash_moves_select on public.shift_cash_moves
+  for select to authenticated
+  using (exists (select 1 from public.cashier_shifts s where s.id = shift_cash_moves.shift_id));
+
+-- orders now record the shift they were rung up in
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  if jsonb_typeof(p_payments) <> 'array' or jsonb_array_length(p_payments) = 0 then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (order_id, menu_item_id, qty, unit_price, line_total)
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
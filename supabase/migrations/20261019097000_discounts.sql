@@ -0,0 +1,133 @@
+-- Line and order discounts, including the statutory Senior Citizen / PWD discount.
+--
+-- order_lines.line_total and orders.total_amount stay the amounts actually charged
+-- (after discounts), so existing reports keep summing the right numbers.
+-- orders.subtotal_amount is the sum of line totals before the order-level discount.
+-- SC/PWD orders keep the ID number and name of the cardholder for BIR reporting.
+
+alter table public.order_lines add column if not exists discount_type text;
+alter table public.order_lines add column if not exists discount_value numeric(12,2);
+alter table public.order_lines add column if not exists discount_amount numeric(12,2) not null default 0;
+
+alter table public.orders add column if not exists subtotal_amount numeric(12,2);
+alter table public.orders add column if not exists discount_type text;
+alter table public.orders add column if not exists discount_value numeric(12,2);
+alter table public.orders add column if not exists discount_amount numeric(12,2) not null default 0;
+alter table public.orders add column if not exists discount_id_no text;
+alter table public.orders add column if not exists discount_holder text;
+
+update public.orders set subtotal_amount = total_amount where subtotal_amount is null;
+
+alter table public.order_lines drop constraint if exists order_lines_discount_type_check;
+alter table public.order_lines add constraint order_lines_discount_type_check check (
+  discount_type is null or discount_type in ('PERCENT', 'FIXED', 'SC', 'PWD')
+);
+
+alter table public.orders drop constraint if exists orders_discount_type_check;
+alter table public.orders add constraint orders_discount_type_check check (
+  discount_type is null or discount_type in ('PERCENT', 'FIXED', 'SC', 'PWD')
+);
+
+alter table public.orders drop constraint if exists orders_discount_total_check;
+alter table public.orders add constraint orders_discount_total_check check (
+  subtotal_amount is null or total_amount = subtotal_amount - discount_amount
+);
+
+alter table public.orders drop constraint if exists orders_statutory_discount_id_check;
+alter table public.orders add constraint orders_statutory_discount_id_check check (
+  discount_type is null or discount_type not in ('SC', 'PWD') or discount_id_no is not null
+);
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  -- a discount can bring the total to zero, and then there is nothing to tender
+  if jsonb_typeof(p_payments) <> 'array'
+     or (jsonb_array_length(p_payments) = 0 and coalesce((p_order->>'total_amount')::numeric, 0) <> 0) then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id,
+      subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id,
+      coalesce(v_in.subtotal_amount, v_in.total_amount), v_in.discount_type, v_in.discount_value,
+      coalesce(v_in.discount_amount, 0), v_in.discount_id_no, v_in.discount_holder
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (
+    order_id, menu_item_id, qty, unit_price, discount_type, discount_value, discount_amount, line_total
+  )
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, l.discount_type, l.discount_value,
+    coalesce(l.discount_amount, 0), l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
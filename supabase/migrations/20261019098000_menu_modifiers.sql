@@ -0,0 +1,163 @@
+-- Modifier groups on menu items (sizes, flavors, extra rice...).
+--
+-- A group is attached to any number of menu items; min_select > 0 makes it required.
+-- Each option carries a price delta added to the item's base price. order_lines keeps
+-- a snapshot of the chosen options in `modifiers`, and unit_price already includes the deltas.
+
+create table if not exists public.modifier_groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  min_select int not null default 0,
+  max_select int not null default 1,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint modifier_groups_select_range_check check (min_select >= 0 and max_select >= 1 and max_select >= min_select)
+);
+
+create table if not exists public.modifier_options (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.modifier_groups(id) on delete cascade,
+  name text not null,
+  price_delta numeric(12,2) not null default 0,
+  sort_order int not null default 0,
+  is_active boolean not null default true
+);
+
+create index if not exists modifier_options_group_id_idx on public.modifier_options (group_id);
+
+create table if not exists public.menu_item_modifier_groups (
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  group_id uuid not null references public.modifier_groups(id) on delete cascade,
+  sort_order int not null default 0,
+  primary key (menu_item_id, group_id)
+);
+
+alter table public.order_lines add column if not exists modifiers jsonb not null default '[]'::jsonb;
+
+alter table public.modifier_groups enable row level security;
+alter table public.modifier_options enable row level security;
+alter table public.menu_item_modifier_groups enable row level security;
+
+drop policy if exists modifier_groups_select on public.modifier_groups;
+create policy modifier_groups_select on public.modifier_groups
+  for select to authenticated using (true);
+
+drop policy if exists modifier_options_select on public.modifier_options;
+create policy modifier_options_select on public.modifier_options
+  for select to authenticated using (true);
+
+drop policy if exists menu_item_modifier_groups_select on public.menu_item_modifier_groups;
+create policy menu_item_modifier_groups_select on public.menu_item_modifier_groups
+  for select to authenticated using (true);
+
+drop policy if exists modifier_groups_owner_write on public.modifier_groups;
+create policy modifier_groups_owner_write on public.modifier_groups
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+drop policy if exists modifier_options_owner_write on public.modifier_options;
+create policy modifier_options_owner_write on public.modifier_options
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+drop policy if exists menu_item_modifier_groups_owner_write on public.menu_item_modifier_groups;
+create policy menu_item_modifier_groups_owner_write on public.menu_item_modifier_groups
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  -- a discount can bring the total to zero, and then there is nothing to tender
+  if jsonb_typeof(p_payments) <> 'array'
+     or (jsonb_array_length(p_payments) = 0 and coalesce((p_order->>'total_amount')::numeric, 0) <> 0) then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id,
+      subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id,
+      coalesce(v_in.subtotal_amount, v_in.total_amount), v_in.discount_type, v_in.discount_value,
+      coalesce(v_in.discount_amount, 0), v_in.discount_id_no, v_in.discount_holder
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (
+    order_id, menu_item_id, qty, unit_price, modifiers, discount_type, discount_value, discount_amount, line_total
+  )
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, coalesce(l.modifiers, '[]'::jsonb), l.discount_type, l.discount_value,
+    coalesce(l.discount_amount, 0), l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
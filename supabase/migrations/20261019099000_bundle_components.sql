@@ -0,0 +1,80 @@
+-- Combo / bundle meals.
+--
+-- A bundle is an ordinary menu item with rows in menu_item_components; the cashier
+-- sells it as one line. When an order turns PAID, each bundle line is expanded into
+-- its components and those are what get deducted from the branch's stock
+-- (inventory_moves -> inventory_onhand). Items without components deduct themselves,
+-- as before. Expansion is one level deep: a component is never expanded again.
+
+create table if not exists public.menu_item_components (
+  bundle_item_id uuid not null references public.menu_items(id) on delete cascade,
+  component_item_id uuid not null references public.menu_items(id) on delete restrict,
+  qty numeric(12,3) not null,
+  created_at timestamptz not null default now(),
+  primary key (bundle_item_id, component_item_id),
+  constraint menu_item_components_qty_check check (qty > 0),
+  constraint menu_item_components_self_check check (bundle_item_id <> component_item_id)
+);
+
+alter table public.menu_item_components enable row level security;
+
+drop policy if exists menu_item_components_select on public.menu_item_components;
+create policy menu_item_components_select on public.menu_item_components
+  for select to authenticated using (true);
+
+drop policy if exists menu_item_components_owner_write on public.menu_item_components;
+create policy menu_item_components_owner_write on public.menu_item_components
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+-- One SALE move per stocked item per order, summed across lines and bundles.
+create or replace function public.orders_paid_deduct_inventory()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'PAID' and old.status is distinct from 'PAID' then
+    insert into public.inventory_moves (move_type, from_branch_id, to_branch_id, menu_item_id, qty, reason, created_by, order_id)
+    select 'SALE', new.branch_id, null, x.menu_item_id, sum(x.qty), 'Order sale', new.created_by, new.id
+    from (
+      select coalesce(c.component_item_id, l.menu_item_id) as menu_item_id, l.qty * coalesce(c.qty, 1) as qty
+      from public.order_lines l
+      left join public.menu_item_components c on c.bundle_item_id = l.menu_item_id
+      where l.order_id = new.id
+    ) x
+    group by x.menu_item_id;
+  end if;
+  return new;
+end;
+$$;
+
+-- The baseline schema already deducted stock on PAID, under a trigger this repo
+-- doesn't name. Nothing is dropped on a guess: if another trigger on orders still
+-- books SALE moves, stop here so it can be dropped by name first, rather than have
+-- every paid order deducted twice.
+do $$
+declare
+  v_names text;
+begin
+  select string_agg(tg.tgname, ', ')
+  into v_names
+  from pg_trigger tg
+  join pg_proc p on p.oid = tg.tgfoid
+  where tg.tgrelid = 'public.orders'::regclass
+    and not tg.tgisinternal
+    and tg.tgname <> 'orders_paid_deduct_inventory'
+    and p.prosrc ilike '%inventory_moves%'
+    and p.prosrc ilike '%''SALE''%';
+  if v_names is not null then
+    raise exception 'orders already has a SALE deduction trigger (%); drop it by name before applying this migration', v_names;
+  end if;
+end;
+$$;
+
+drop trigger if exists orders_paid_deduct_inventory on public.orders;
+create trigger orders_paid_deduct_inventory
+  after update of status on public.orders
+  for each row execute function public.orders_paid_deduct_inventory();
@@ -0,0 +1,192 @@
+-- Ingredient (raw material) inventory with recipes.
+--
+-- ingredients are stocked per branch in their base unit (g, ml or pcs). Pack sizes
+-- that differ per ingredient live in ingredient_units; kg/L/dozen are converted in
+-- the app. ingredient_moves mirrors inventory_moves and a trigger keeps
+-- ingredient_onhand in step with it.
+--
+-- menu_item_recipes says how much of each ingredient one unit of a menu item uses.
+-- When an order turns PAID, items with a recipe consume their ingredients; items
+-- without one keep deducting finished-goods stock as before. Bundles are expanded
+-- into their components first, so a combo uses its components' recipes.
+
+create table if not exists public.ingredients (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  base_unit text not null,
+  low_stock_at numeric(14,3) not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint ingredients_base_unit_check check (base_unit in ('g', 'ml', 'pcs'))
+);
+
+create table if not exists public.ingredient_units (
+  ingredient_id uuid not null references public.ingredients(id) on delete cascade,
+  unit text not null,
+  factor numeric(14,4) not null,
+  primary key (ingredient_id, unit),
+  constraint ingredient_units_factor_check check (factor > 0)
+);
+
+create table if not exists public.menu_item_recipes (
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  ingredient_id uuid not null references public.ingredients(id) on delete restrict,
+  qty numeric(14,3) not null,
+  primary key (menu_item_id, ingredient_id),
+  constraint menu_item_recipes_qty_check check (qty > 0)
+);
+
+create table if not exists public.ingredient_onhand (
+  branch_id uuid not null references public.branches(id),
+  ingredient_id uuid not null references public.ingredients(id) on delete cascade,
+  on_hand numeric(14,3) not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (branch_id, ingredient_id)
+);
+
+create table if not exists public.ingredient_moves (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  move_type text not null,
+  from_branch_id uuid references public.branches(id),
+  to_branch_id uuid references public.branches(id),
+  ingredient_id uuid not null references public.ingredients(id),
+  qty numeric(14,3) not null, -- base units
+  entered_qty numeric(14,3),  -- what was typed in, before conversion
+  entered_unit text,
+  reason text,
+  created_by uuid,
+  order_id uuid references public.orders(id),
+  constraint ingredient_moves_type_check check (move_type in ('RECEIPT', 'TRANSFER', 'ADJUST', 'SALE')),
+  constraint ingredient_moves_qty_check check (qty > 0),
+  constraint ingredient_moves_branch_check check (from_branch_id is not null or to_branch_id is not null)
+);
+
+create index if not exists ingredient_moves_created_at_idx on public.ingredient_moves (created_at desc);
+create index if not exists ingredient_moves_order_id_idx on public.ingredient_moves (order_id);
+
+create or replace function public.apply_ingredient_move()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.from_branch_id is not null then
+    insert into public.ingredient_onhand (branch_id, ingredient_id, on_hand, updated_at)
+    values (new.from_branch_id, new.ingredient_id, -new.qty, now())
+    on conflict (branch_id, ingredient_id)
+    do update set on_hand = public.ingredient_onhand.on_hand - new.qty, updated_at = now();
+  end if;
+
+  if new.to_branch_id is not null then
+    insert into public.ingredient_onhand (branch_id, ingredient_id, on_hand, updated_at)
+    values (new.to_branch_id, new.ingredient_id, new.qty, now())
+    on conflict (branch_id, ingredient_id)
+    do update set on_hand = public.ingredient_onhand.on_hand + new.qty, updated_at = now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_ingredient_move on public.ingredient_moves;
+create trigger apply_ingredient_move
+  after insert on public.ingredient_moves
+  for each row execute function public.apply_ingredient_move();
+
+alter table public.ingredients enable row level security;
+alter table public.ingredient_units enable row level security;
+alter table public.menu_item_recipes enable row level security;
+alter table public.ingredient_onhand enable row level security;
+alter table public.ingredient_moves enable row level security;
+
+drop policy if exists ingredients_select on public.ingredients;
+create policy ingredients_select on public.ingredients
+  for select to authenticated using (true);
+
+drop policy if exists ingredient_units_select on public.ingredient_units;
+create policy ingredient_units_select on public.ingredient_units
+  for select to authenticated using (true);
+
+drop policy if exists menu_item_recipes_select on public.menu_item_recipes;
+create policy menu_item_recipes_select on public.menu_item_recipes
+  for select to authenticated using (true);
+
+drop policy if exists ingredient_onhand_select on public.ingredient_onhand;
+create policy ingredient_onhand_select on public.ingredient_onhand
+  for select to authenticated using (true);
+
+drop policy if exists ingredient_moves_select on public.ingredient_moves;
+create policy ingredient_moves_select on public.ingredient_moves
+  for select to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+drop policy if exists ingredients_owner_write on public.ingredients;
+create policy ingredients_owner_write on public.ingredients
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+drop policy if exists ingredient_units_owner_write on public.ingredient_units;
+create policy ingredient_units_owner_write on public.ingredient_units
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+drop policy if exists menu_item_recipes_owner_write on public.menu_item_recipes;
+create policy menu_item_recipes_owner_write on public.menu_item_recipes
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+-- manual moves only; SALE rows come from the PAID trigger below
+drop policy if exists ingredient_moves_owner_insert on public.ingredient_moves;
+create policy ingredient_moves_owner_insert on public.ingredient_moves
+  for insert to authenticated
+  with check (
+    move_type in ('RECEIPT', 'TRANSFER', 'ADJUST')
+    and exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner')
+  );
+
+create or replace function public.orders_paid_deduct_inventory()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'PAID' and old.status is distinct from 'PAID' then
+    -- finished goods: items sold (bundles expanded) that have no recipe
+    insert into public.inventory_moves (move_type, from_branch_id, to_branch_id, menu_item_id, qty, reason, created_by, order_id)
+    select 'SALE', new.branch_id, null, x.menu_item_id, sum(x.qty), 'Order sale', new.created_by, new.id
+    from (
+      select coalesce(c.component_item_id, l.menu_item_id) as menu_item_id, l.qty * coalesce(c.qty, 1) as qty
+      from public.order_lines l
+      left join public.menu_item_components c on c.bundle_item_id = l.menu_item_id
+      where l.order_id = new.id
+    ) x
+    where not exists (select 1 from public.menu_item_recipes r where r.menu_item_id = x.menu_item_id)
+    group by x.menu_item_id;
+
+    -- ingredients: everything else, by recipe
+    insert into public.ingredient_moves (move_type, from_branch_id, to_branch_id, ingredient_id, qty, reason, created_by, order_id)
+    select 'SALE', new.branch_id, null, r.ingredient_id, sum(x.qty * r.qty), 'Order sale', new.created_by, new.id
+    from (
+      select coalesce(c.component_item_id, l.menu_item_id) as menu_item_id, l.qty * coalesce(c.qty, 1) as qty
+      from public.order_lines l
+      left join public.menu_item_components c on c.bundle_item_id = l.menu_item_id
+      where l.order_id = new.id
+    ) x
+    join public.menu_item_recipes r on r.menu_item_id = x.menu_item_id
+    group by r.ingredient_id;
+  end if;
+  return new;
+end;
+$$;
+
+-- same trigger as the bundle migration, now calling the recipe-aware function
+drop trigger if exists orders_paid_deduct_inventory on public.orders;
+create trigger orders_paid_deduct_inventory
+  after update of status on public.orders
+  for each row execute function public.orders_paid_deduct_inventory();
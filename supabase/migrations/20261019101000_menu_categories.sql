@@ -0,0 +1,63 @@
+-- Owner-managed menu: categories with a display order, item images.
+--
+-- menu_items.category (text) is kept and written alongside category_id so older
+-- clients and exports keep working; category_id is what the app reads now.
+-- Images go to the public "menu-images" storage bucket; only owners can upload.
+
+create table if not exists public.menu_categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  sort_order int not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.menu_items add column if not exists category_id uuid references public.menu_categories(id);
+alter table public.menu_items add column if not exists image_url text;
+alter table public.menu_items add column if not exists sort_order int not null default 0;
+
+-- existing free-text categories become rows, meals first then add-ons as the cashier showed them
+insert into public.menu_categories (name, sort_order)
+select c.category,
+  case lower(c.category) when 'meals' then 0 when 'add-ons' then 1 else 10 end
+from (select distinct category from public.menu_items where category is not null and category <> '') c
+on conflict (name) do nothing;
+
+update public.menu_items m
+set category_id = c.id
+from public.menu_categories c
+where m.category_id is null and m.category = c.name;
+
+alter table public.menu_categories enable row level security;
+
+drop policy if exists menu_categories_select on public.menu_categories;
+create policy menu_categories_select on public.menu_categories
+  for select to authenticated using (true);
+
+drop policy if exists menu_categories_owner_write on public.menu_categories;
+create policy menu_categories_owner_write on public.menu_categories
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+drop policy if exists menu_items_owner_write on public.menu_items;
+create policy menu_items_owner_write on public.menu_items
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+insert into storage.buckets (id, name, public)
+values ('menu-images', 'menu-images', true)
+on conflict (id) do nothing;
+
+drop policy if exists menu_images_owner_write on storage.objects;
+create policy menu_images_owner_write on storage.objects
+  for all to authenticated
+  using (
+    bucket_id = 'menu-images'
+    and exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner')
+  )
+  with check (
+    bucket_id = 'menu-images'
+    and exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner')
+  );
@@ -0,0 +1,29 @@
+-- Per-branch menu pricing and availability.
+--
+-- A row overrides one menu item at one branch: `price` (null = use menu_items.price)
+-- and `is_available` (false = the branch doesn't carry it). No row means the item is
+-- sold at its base price. Orders are priced server-side with the override and
+-- order_lines.unit_price keeps what was actually charged, so changing an override
+-- never rewrites past sales.
+
+create table if not exists public.branch_menu_items (
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  price numeric(12,2),
+  is_available boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (branch_id, menu_item_id),
+  constraint branch_menu_items_price_check check (price is null or price >= 0)
+);
+
+alter table public.branch_menu_items enable row level security;
+
+drop policy if exists branch_menu_items_select on public.branch_menu_items;
+create policy branch_menu_items_select on public.branch_menu_items
+  for select to authenticated using (true);
+
+drop policy if exists branch_menu_items_owner_write on public.branch_menu_items;
+create policy branch_menu_items_owner_write on public.branch_menu_items
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
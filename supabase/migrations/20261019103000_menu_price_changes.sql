@@ -0,0 +1,122 @@
+-- Scheduled price changes and per-item price history.
+--
+-- Every price an item has had is a row in menu_price_changes. Owners schedule a
+-- change with an effective_from timestamp (entered in PH time by the app); until it
+-- is applied, applied_at is null and menu_items.price still holds the old price.
+-- apply_due_menu_price_changes() switches over every change that is due: pg_cron runs
+-- it every minute and the orders API runs it before pricing a cart, so no sale is
+-- priced at a stale amount. Direct price edits are logged by a trigger, so the
+-- history stays complete whichever way a price was changed.
+
+create table if not exists public.menu_price_changes (
+  id uuid primary key default gen_random_uuid(),
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  old_price numeric(12,2), -- filled in when the change is applied
+  new_price numeric(12,2) not null,
+  effective_from timestamptz not null,
+  applied_at timestamptz,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz not null default now(),
+  constraint menu_price_changes_price_check check (new_price >= 0)
+);
+
+create index if not exists menu_price_changes_item_idx on public.menu_price_changes (menu_item_id, effective_from desc);
+create index if not exists menu_price_changes_pending_idx on public.menu_price_changes (effective_from) where applied_at is null;
+
+-- starting point of the history: the price each item has today
+insert into public.menu_price_changes (menu_item_id, old_price, new_price, effective_from, applied_at, created_by)
+select m.id, null, m.price, now(), now(), null
+from public.menu_items m
+where not exists (select 1 from public.menu_price_changes c where c.menu_item_id = m.id);
+
+alter table public.menu_price_changes enable row level security;
+
+drop policy if exists menu_price_changes_select on public.menu_price_changes;
+create policy menu_price_changes_select on public.menu_price_changes
+  for select to authenticated using (true);
+
+-- owners schedule changes and may cancel them until they take effect; applied rows are history
+drop policy if exists menu_price_changes_owner_insert on public.menu_price_changes;
+create policy menu_price_changes_owner_insert on public.menu_price_changes
+  for insert to authenticated
+  with check (
+    applied_at is null
+    and exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner')
+  );
+
+drop policy if exists menu_price_changes_owner_delete on public.menu_price_changes;
+create policy menu_price_changes_owner_delete on public.menu_price_changes
+  for delete to authenticated
+  using (
+    applied_at is null
+    and exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner')
+  );
+
+-- Applies due changes oldest-first, so two due changes for one item both land in history.
+create or replace function public.apply_due_menu_price_changes()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  -- tells menu_items_log_price_change this update is already recorded
+  perform set_config('app.applying_price_change', 'on', true);
+
+  for r in
+    select c.id, c.menu_item_id, c.new_price
+    from public.menu_price_changes c
+    where c.applied_at is null and c.effective_from <= now()
+    order by c.effective_from, c.created_at
+    for update skip locked
+  loop
+    update public.menu_price_changes c
+    set applied_at = now(), old_price = m.price
+    from public.menu_items m
+    where c.id = r.id and m.id = r.menu_item_id;
+
+    update public.menu_items set price = r.new_price where id = r.menu_item_id;
+    n := n + 1;
+  end loop;
+
+  perform set_config('app.applying_price_change', 'off', true);
+  return n;
+end;
+$$;
+
+revoke all on function public.apply_due_menu_price_changes() from public, anon, authenticated;
+
+create or replace function public.menu_items_log_price_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('app.applying_price_change', true), '') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' or new.price is distinct from old.price then
+    insert into public.menu_price_changes (menu_item_id, old_price, new_price, effective_from, applied_at, created_by)
+    values (new.id, case when tg_op = 'UPDATE' then old.price end, new.price, now(), now(), auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists menu_items_log_price_change on public.menu_items;
+create trigger menu_items_log_price_change
+after insert or update of price on public.menu_items
+for each row execute function public.menu_items_log_price_change();
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'apply-menu-price-changes',
+  '* * * * *',
+  $$select public.apply_due_menu_price_changes()$$
+);
@@ -0,0 +1,59 @@
+-- Live sold-out ("86") flags on the cashier menu.
+--
+-- branch_sold_out holds items a cashier marked sold out at their branch, whatever
+-- the stock numbers say (spilled batch, machine down). The cashier screen also grays
+-- out items whose stock (inventory_onhand, or ingredient_onhand through the recipe)
+-- is at zero, and follows all three tables through Supabase realtime.
+
+create table if not exists public.branch_sold_out (
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  marked_by uuid references auth.users(id) default auth.uid(),
+  marked_at timestamptz not null default now(),
+  primary key (branch_id, menu_item_id)
+);
+
+alter table public.branch_sold_out enable row level security;
+
+drop policy if exists branch_sold_out_select on public.branch_sold_out;
+create policy branch_sold_out_select on public.branch_sold_out
+  for select to authenticated using (true);
+
+-- cashiers flag items at their own branch; owners anywhere
+drop policy if exists branch_sold_out_insert on public.branch_sold_out;
+create policy branch_sold_out_insert on public.branch_sold_out
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.user_id = auth.uid() and (p.role = 'owner' or p.branch_id = branch_sold_out.branch_id)
+    )
+  );
+
+drop policy if exists branch_sold_out_delete on public.branch_sold_out;
+create policy branch_sold_out_delete on public.branch_sold_out
+  for delete to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.user_id = auth.uid() and (p.role = 'owner' or p.branch_id = branch_sold_out.branch_id)
+    )
+  );
+
+-- deletes carry the whole row so realtime listeners know which item came back
+alter table public.branch_sold_out replica identity full;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['inventory_onhand', 'ingredient_onhand', 'branch_sold_out'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
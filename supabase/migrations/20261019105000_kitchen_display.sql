@@ -0,0 +1,71 @@
+-- Kitchen display (KDS): a prep lifecycle for paid orders.
+--
+-- orders.status stays about money (NEW -> PAID / VOIDED). kitchen_status tracks the
+-- food: QUEUED when the order is paid, then PREPARING -> READY -> SERVED as the
+-- kitchen bumps it, with a timestamp per step so prep/ticket times can be reported.
+-- Replacement orders from VOID + REPLACE are corrections, not new food, so they
+-- never reach the kitchen. Bumps go through /api/kitchen (service role).
+
+alter table public.orders add column if not exists kitchen_status text;
+alter table public.orders add column if not exists kitchen_queued_at timestamptz;
+alter table public.orders add column if not exists kitchen_started_at timestamptz;
+alter table public.orders add column if not exists kitchen_ready_at timestamptz;
+alter table public.orders add column if not exists kitchen_served_at timestamptz;
+
+alter table public.orders drop constraint if exists orders_kitchen_status_check;
+alter table public.orders add constraint orders_kitchen_status_check
+  check (kitchen_status is null or kitchen_status in ('QUEUED', 'PREPARING', 'READY', 'SERVED'));
+
+create index if not exists orders_kitchen_open_idx
+  on public.orders (branch_id, kitchen_queued_at)
+  where kitchen_status in ('QUEUED', 'PREPARING', 'READY');
+
+create or replace function public.orders_paid_queue_kitchen()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'PAID'
+    and (tg_op = 'INSERT' or old.status is distinct from 'PAID')
+    and new.kitchen_status is null
+    and new.replaces is null
+  then
+    new.kitchen_status := 'QUEUED';
+    new.kitchen_queued_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_paid_queue_kitchen on public.orders;
+create trigger orders_paid_queue_kitchen
+  before insert or update of status on public.orders
+  for each row execute function public.orders_paid_queue_kitchen();
+
+-- kitchen screens read their own branch's tickets
+drop policy if exists orders_branch_staff_select on public.orders;
+create policy orders_branch_staff_select on public.orders
+  for select to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.branch_id = orders.branch_id));
+
+drop policy if exists order_lines_branch_staff_select on public.order_lines;
+create policy order_lines_branch_staff_select on public.order_lines
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.orders o
+      join public.profiles p on p.user_id = auth.uid() and p.branch_id = o.branch_id
+      where o.id = order_lines.order_id
+    )
+  );
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'orders'
+  ) then
+    alter publication supabase_realtime add table public.orders;
+  end if;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- Held (parked) carts on the cashier screen.
+--
+-- A cashier can park the current cart under a label (e.g. "blue shirt") and serve
+-- the next customer. Held carts are stored per branch so they survive a refresh and
+-- any cashier at the branch can recall one; recalling deletes the row, so a cart can
+-- only come back once. Nothing here is an order until it is placed.
+
+create table if not exists public.held_carts (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  label text not null,
+  cart jsonb not null, -- cart lines as the cashier screen keeps them
+  order_discount jsonb,
+  discount_holder jsonb,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz not null default now(),
+  constraint held_carts_label_check check (char_length(label) between 1 and 40)
+);
+
+create index if not exists held_carts_branch_idx on public.held_carts (branch_id, created_at);
+
+alter table public.held_carts enable row level security;
+
+drop policy if exists held_carts_branch_select on public.held_carts;
+create policy held_carts_branch_select on public.held_carts
+  for select to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.branch_id = held_carts.branch_id));
+
+drop policy if exists held_carts_branch_insert on public.held_carts;
+create policy held_carts_branch_insert on public.held_carts
+  for insert to authenticated
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.branch_id = held_carts.branch_id));
+
+drop policy if exists held_carts_branch_delete on public.held_carts;
+create policy held_carts_branch_delete on public.held_carts
+  for delete to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.branch_id = held_carts.branch_id));
@@ -0,0 +1,153 @@
+-- Order types (dine-in / take-out / delivery) with per-type fees.
+--
+-- orders.order_type is null for orders placed before types existed. A fee row per
+-- type (e.g. a take-out packaging fee) is added after discounts, either once per
+-- order or per item; discounts, SC/PWD included, never apply to it. orders keeps the
+-- fee label and amount charged, so later fee changes don't rewrite old orders.
+-- Dine-in orders may carry a table number, delivery orders the platform and its
+-- order reference.
+
+alter table public.orders add column if not exists order_type text;
+alter table public.orders add column if not exists table_no text;
+alter table public.orders add column if not exists platform text;
+alter table public.orders add column if not exists platform_ref text;
+alter table public.orders add column if not exists fee_label text;
+alter table public.orders add column if not exists fee_amount numeric(12,2) not null default 0;
+
+alter table public.orders drop constraint if exists orders_order_type_check;
+alter table public.orders add constraint orders_order_type_check check (
+  order_type is null or order_type in ('DINE_IN', 'TAKE_OUT', 'DELIVERY')
+);
+
+alter table public.orders drop constraint if exists orders_fee_amount_check;
+alter table public.orders add constraint orders_fee_amount_check check (fee_amount >= 0);
+
+-- the total now also carries the order-type fee
+alter table public.orders drop constraint if exists orders_discount_total_check;
+alter table public.orders add constraint orders_discount_total_check check (
+  subtotal_amount is null or total_amount = subtotal_amount - discount_amount + fee_amount
+);
+
+create table if not exists public.order_type_fees (
+  order_type text primary key,
+  label text not null,
+  amount numeric(12,2) not null default 0,
+  per_item boolean not null default false,
+  updated_at timestamptz not null default now(),
+  constraint order_type_fees_type_check check (order_type in ('DINE_IN', 'TAKE_OUT', 'DELIVERY')),
+  constraint order_type_fees_amount_check check (amount >= 0)
+);
+
+insert into public.order_type_fees (order_type, label, amount, per_item) values
+  ('DINE_IN', 'Service fee', 0, false),
+  ('TAKE_OUT', 'Packaging fee', 0, false),
+  ('DELIVERY', 'Packaging fee', 0, false)
+on conflict (order_type) do nothing;
+
+alter table public.order_type_fees enable row level security;
+
+drop policy if exists order_type_fees_select on public.order_type_fees;
+create policy order_type_fees_select on public.order_type_fees
+  for select to authenticated using (true);
+
+drop policy if exists order_type_fees_owner_write on public.order_type_fees;
+create policy order_type_fees_owner_write on public.order_type_fees
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  -- a discount can bring the total to zero, and then there is nothing to tender
+  if jsonb_typeof(p_payments) <> 'array'
+     or (jsonb_array_length(p_payments) = 0 and coalesce((p_order->>'total_amount')::numeric, 0) <> 0) then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id,
+      subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder,
+      order_type, table_no, platform, platform_ref, fee_label, fee_amount
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id,
+      coalesce(v_in.subtotal_amount, v_in.total_amount), v_in.discount_type, v_in.discount_value,
+      coalesce(v_in.discount_amount, 0), v_in.discount_id_no, v_in.discount_holder,
+      v_in.order_type, v_in.table_no, v_in.platform, v_in.platform_ref, v_in.fee_label, coalesce(v_in.fee_amount, 0)
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (
+    order_id, menu_item_id, qty, unit_price, modifiers, discount_type, discount_value, discount_amount, line_total
+  )
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, coalesce(l.modifiers, '[]'::jsonb), l.discount_type, l.discount_value,
+    coalesce(l.discount_amount, 0), l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
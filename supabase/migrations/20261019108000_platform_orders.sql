@@ -0,0 +1,149 @@
+-- Delivery-platform orders (GrabFood, foodpanda) received by webhook.
+--
+-- /api/platform-orders accepts a signed, normalized order payload. The platform's
+-- store id picks the branch (platform_stores) and each item code maps to a menu item
+-- (platform_item_codes). Orders go through place_order like any other sale, as
+-- DELIVERY orders paid by a single PLATFORM tender, with the platform's order id as
+-- idempotency key so a redelivered webhook never records the order twice. The
+-- commission the platform keeps is stored on the order; total_amount stays what the
+-- customer paid.
+
+create table if not exists public.platform_stores (
+  platform text not null,
+  store_id text not null,
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  primary key (platform, store_id)
+);
+
+create table if not exists public.platform_item_codes (
+  platform text not null,
+  code text not null,
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  primary key (platform, code)
+);
+
+alter table public.platform_stores enable row level security;
+alter table public.platform_item_codes enable row level security;
+
+drop policy if exists platform_stores_owner_all on public.platform_stores;
+create policy platform_stores_owner_all on public.platform_stores
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+drop policy if exists platform_item_codes_owner_all on public.platform_item_codes;
+create policy platform_item_codes_owner_all on public.platform_item_codes
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+alter table public.orders add column if not exists platform_commission numeric(12,2);
+
+alter table public.orders drop constraint if exists orders_platform_commission_check;
+alter table public.orders add constraint orders_platform_commission_check
+  check (platform_commission is null or (platform_commission >= 0 and platform_commission <= total_amount));
+
+alter table public.orders drop constraint if exists orders_payment_type_check;
+alter table public.orders add constraint orders_payment_type_check
+  check (payment_type in ('CASH', 'GCASH', 'SPLIT', 'PLATFORM'));
+
+alter table public.order_payments drop constraint if exists order_payments_method_check;
+alter table public.order_payments add constraint order_payments_method_check
+  check (method in ('CASH', 'GCASH', 'PLATFORM'));
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  -- a discount can bring the total to zero, and then there is nothing to tender
+  if jsonb_typeof(p_payments) <> 'array'
+     or (jsonb_array_length(p_payments) = 0 and coalesce((p_order->>'total_amount')::numeric, 0) <> 0) then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id,
+      subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder,
+      order_type, table_no, platform, platform_ref, fee_label, fee_amount, platform_commission
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id,
+      coalesce(v_in.subtotal_amount, v_in.total_amount), v_in.discount_type, v_in.discount_value,
+      coalesce(v_in.discount_amount, 0), v_in.discount_id_no, v_in.discount_holder,
+      v_in.order_type, v_in.table_no, v_in.platform, v_in.platform_ref, v_in.fee_label, coalesce(v_in.fee_amount, 0),
+      v_in.platform_commission
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (
+    order_id, menu_item_id, qty, unit_price, modifiers, discount_type, discount_value, discount_amount, line_total
+  )
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, coalesce(l.modifiers, '[]'::jsonb), l.discount_type, l.discount_value,
+    coalesce(l.discount_amount, 0), l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
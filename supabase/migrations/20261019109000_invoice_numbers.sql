@@ -0,0 +1,187 @@
+-- BIR sales invoice numbers and the VAT breakdown on every order.
+--
+-- order_no restarts every business_date, so it can't be an invoice series. Each
+-- branch gets its own invoice_no sequence instead: assigned when an order becomes
+-- PAID, never reset, and gap-free because the counter row is bumped inside the same
+-- transaction (a rolled-back sale gives its number back). A voided order keeps its
+-- number, an invoiced order can't be deleted, and a replacement order gets a new
+-- number when it is finalized. Orders paid before this migration have no number.
+--
+-- The VAT columns are computed by the API (lib/pricing.ts vatBreakdown) and stored
+-- as charged: vatable_sales + vat_amount + vat_exempt_sales + zero_rated_sales = total_amount.
+
+create table if not exists public.invoice_sequences (
+  branch_id uuid primary key references public.branches(id) on delete cascade,
+  last_no bigint not null default 0 check (last_no >= 0)
+);
+
+alter table public.invoice_sequences enable row level security;
+
+drop policy if exists invoice_sequences_owner_select on public.invoice_sequences;
+create policy invoice_sequences_owner_select on public.invoice_sequences
+  for select to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+alter table public.orders add column if not exists invoice_no bigint;
+alter table public.orders add column if not exists vatable_sales numeric(12,2);
+alter table public.orders add column if not exists vat_amount numeric(12,2);
+alter table public.orders add column if not exists vat_exempt_sales numeric(12,2);
+alter table public.orders add column if not exists zero_rated_sales numeric(12,2) not null default 0;
+
+create unique index if not exists orders_branch_invoice_no_uidx
+  on public.orders (branch_id, invoice_no)
+  where invoice_no is not null;
+
+create or replace function public.orders_assign_invoice_no()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- numbers only ever come from the counter, and once issued stay with the order, voided or not
+  if tg_op = 'INSERT' then
+    new.invoice_no := null;
+  else
+    new.invoice_no := old.invoice_no;
+  end if;
+
+  if new.status = 'PAID'
+    and (tg_op = 'INSERT' or old.status is distinct from 'PAID')
+    and new.invoice_no is null
+  then
+    -- the row lock on the counter serializes concurrent sales at the same branch
+    insert into public.invoice_sequences as s (branch_id, last_no)
+    values (new.branch_id, 1)
+    on conflict (branch_id) do update set last_no = s.last_no + 1
+    returning s.last_no into new.invoice_no;
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function public.orders_assign_invoice_no() from public, anon, authenticated;
+
+drop trigger if exists orders_assign_invoice_no on public.orders;
+create trigger orders_assign_invoice_no
+  before insert or update of status, invoice_no on public.orders
+  for each row execute function public.orders_assign_invoice_no();
+
+create or replace function public.orders_keep_invoiced()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.invoice_no is not null then
+    raise exception 'Invoice % has been issued; void the order instead of deleting it', old.invoice_no;
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists orders_keep_invoiced on public.orders;
+create trigger orders_keep_invoiced
+  before delete on public.orders
+  for each row execute function public.orders_keep_invoiced();
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  -- a discount can bring the total to zero, and then there is nothing to tender
+  if jsonb_typeof(p_payments) <> 'array'
+     or (jsonb_array_length(p_payments) = 0 and coalesce((p_order->>'total_amount')::numeric, 0) <> 0) then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'invoice_no', v_order.invoice_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id,
+      subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder,
+      order_type, table_no, platform, platform_ref, fee_label, fee_amount, platform_commission,
+      vatable_sales, vat_amount, vat_exempt_sales, zero_rated_sales
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id,
+      coalesce(v_in.subtotal_amount, v_in.total_amount), v_in.discount_type, v_in.discount_value,
+      coalesce(v_in.discount_amount, 0), v_in.discount_id_no, v_in.discount_holder,
+      v_in.order_type, v_in.table_no, v_in.platform, v_in.platform_ref, v_in.fee_label, coalesce(v_in.fee_amount, 0),
+      v_in.platform_commission,
+      v_in.vatable_sales, v_in.vat_amount, v_in.vat_exempt_sales, coalesce(v_in.zero_rated_sales, 0)
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'invoice_no', v_order.invoice_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (
+    order_id, menu_item_id, qty, unit_price, modifiers, discount_type, discount_value, discount_amount, line_total
+  )
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, coalesce(l.modifiers, '[]'::jsonb), l.discount_type, l.discount_value,
+    coalesce(l.discount_amount, 0), l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'invoice_no', v_order.invoice_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,209 @@
+-- End-of-day closings (Z-readings) per branch and business_date.
+--
+-- /api/eod builds the report (lib/eodReport.ts) and stores it here; the row is the
+-- filed record, so it can never be updated or deleted, not even by the service role.
+-- Each closing carries the branch's accumulated grand total forward from the one
+-- before it, which is why a branch's days can only be closed in date order.
+--
+-- place_order moves an offline replay whose business_date is already closed onto
+-- the open day, so nothing is ever added to a filed Z-reading.
+
+create table if not exists public.eod_closings (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references public.branches (id),
+  business_date date not null,
+  closed_at timestamptz not null default now(),
+  closed_by uuid references auth.users (id),
+  first_invoice_no bigint,
+  last_invoice_no bigint,
+  net_sales numeric(12,2) not null,
+  old_grand_total numeric(14,2) not null,
+  new_grand_total numeric(14,2) not null,
+  report jsonb not null,
+  unique (branch_id, business_date),
+  check (new_grand_total = old_grand_total + net_sales)
+);
+
+create index if not exists eod_closings_branch_date_idx on public.eod_closings (branch_id, business_date desc);
+
+alter table public.eod_closings enable row level security;
+
+drop policy if exists eod_closings_select on public.eod_closings;
+create policy eod_closings_select on public.eod_closings
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.user_id = auth.uid() and (p.role = 'owner' or p.branch_id = eod_closings.branch_id)
+    )
+  );
+
+-- the grand total chain: each closing starts where the branch's latest one ended
+create or replace function public.eod_closings_check_chain()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_last public.eod_closings%rowtype;
+begin
+  -- two closings for the same branch at once would both read the same previous total
+  perform pg_advisory_xact_lock(hashtext('eod_closings:' || new.branch_id::text));
+
+  select * into v_last
+  from public.eod_closings
+  where branch_id = new.branch_id
+  order by business_date desc
+  limit 1;
+
+  if found and v_last.business_date >= new.business_date then
+    raise exception 'Branch is already closed through %', v_last.business_date;
+  end if;
+  if new.old_grand_total <> coalesce(v_last.new_grand_total, 0) then
+    raise exception 'Grand total does not continue from the last closing (%)', coalesce(v_last.new_grand_total, 0);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists eod_closings_check_chain on public.eod_closings;
+create trigger eod_closings_check_chain
+  before insert on public.eod_closings
+  for each row execute function public.eod_closings_check_chain();
+
+create or replace function public.eod_closings_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'End-of-day closings cannot be changed';
+end;
+$$;
+
+drop trigger if exists eod_closings_immutable on public.eod_closings;
+create trigger eod_closings_immutable
+  before update or delete on public.eod_closings
+  for each row execute function public.eod_closings_immutable();
+
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+  v_open_day date;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  -- a discount can bring the total to zero, and then there is nothing to tender
+  if jsonb_typeof(p_payments) <> 'array'
+     or (jsonb_array_length(p_payments) = 0 and coalesce((p_order->>'total_amount')::numeric, 0) <> 0) then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'invoice_no', v_order.invoice_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id,
+      subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder,
+      order_type, table_no, platform, platform_ref, fee_label, fee_amount, platform_commission,
+      vatable_sales, vat_amount, vat_exempt_sales, zero_rated_sales
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id,
+      coalesce(v_in.subtotal_amount, v_in.total_amount), v_in.discount_type, v_in.discount_value,
+      coalesce(v_in.discount_amount, 0), v_in.discount_id_no, v_in.discount_holder,
+      v_in.order_type, v_in.table_no, v_in.platform, v_in.platform_ref, v_in.fee_label, coalesce(v_in.fee_amount, 0),
+      v_in.platform_commission,
+      v_in.vatable_sales, v_in.vat_amount, v_in.vat_exempt_sales, coalesce(v_in.zero_rated_sales, 0)
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'invoice_no', v_order.invoice_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  -- an offline replay can be rung up on a day that has since been closed; its Z-reading
+  -- and grand total are filed, so the sale goes on the open day instead, with that day's
+  -- next order_no. The invoice number is only issued below (on PAID), after the move, so
+  -- the closed day's invoice range stays intact.
+  if exists (
+    select 1 from public.eod_closings c
+    where c.branch_id = v_order.branch_id and c.business_date >= v_order.business_date
+  ) then
+    v_open_day := (now() at time zone 'Asia/Manila')::date;
+    -- two replays rerouted at once would both read the same max
+    perform pg_advisory_xact_lock(hashtext('order_no:' || v_order.branch_id::text || ':' || v_open_day::text));
+    update public.orders
+    set business_date = v_open_day,
+        order_no = (
+          select coalesce(max(o.order_no), 0) + 1 from public.orders o
+          where o.branch_id = v_order.branch_id and o.business_date = v_open_day
+        )
+    where id = v_order.id
+    returning * into v_order;
+  end if;
+
+  insert into public.order_lines (
+    order_id, menu_item_id, qty, unit_price, modifiers, discount_type, discount_value, discount_amount, line_total
+  )
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, coalesce(l.modifiers, '[]'::jsonb), l.discount_type, l.discount_value,
+    coalesce(l.discount_amount, 0), l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'invoice_no', v_order.invoice_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,204 @@
+-- Per-branch business-day cutoff.
+--
+-- Late-night branches close after midnight, and a 1 AM sale belongs to the night
+-- before. branch_settings.business_day_cutoff is the PH wall-clock time a branch's
+-- business day ends; orders.business_date is now derived from it and from the time
+-- the order was rung up (created_at, which is in the past for an offline replay).
+-- No row, or 00:00, keeps the old midnight-to-midnight day. Changing the cutoff only
+-- affects new orders: business dates already assigned (and closed days) stay put.
+
+create table if not exists public.branch_settings (
+  branch_id uuid primary key references public.branches (id) on delete cascade,
+  business_day_cutoff time not null default '00:00' check (business_day_cutoff < '12:00'),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.branch_settings enable row level security;
+
+drop policy if exists branch_settings_select on public.branch_settings;
+create policy branch_settings_select on public.branch_settings
+  for select to authenticated
+  using (true);
+
+drop policy if exists branch_settings_owner_write on public.branch_settings;
+create policy branch_settings_owner_write on public.branch_settings
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role = 'owner'));
+
+-- the branch's business day that a moment falls in (same rule as phTodayYMD in lib/phTime.ts)
+create or replace function public.business_date_at(p_branch_id uuid, p_at timestamptz)
+returns date
+language sql
+stable
+as $$
+  select ((p_at at time zone 'Asia/Manila')
+    - (coalesce((select s.business_day_cutoff from public.branch_settings s where s.branch_id = p_branch_id), time '00:00')
+       - time '00:00'))::date;
+$$;
+
+-- Business date and the per-day order_no, both decided when the order is inserted.
+-- This takes over from the baseline trigger that stamped the calendar date and
+-- numbered the order within it. A replay whose day has since been closed goes on the
+-- open day; this is the only place that happens (place_order is redefined below
+-- without its own reroute).
+create or replace function public.orders_set_business_day()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.business_date := public.business_date_at(new.branch_id, coalesce(new.created_at, now()));
+  if exists (
+    select 1 from public.eod_closings c
+    where c.branch_id = new.branch_id and c.business_date >= new.business_date
+  ) then
+    new.business_date := public.business_date_at(new.branch_id, now());
+  end if;
+
+  -- two registers ringing up at once would both read the same max
+  perform pg_advisory_xact_lock(hashtext('order_no:' || new.branch_id::text || ':' || new.business_date::text));
+  select coalesce(max(o.order_no), 0) + 1 into new.order_no
+  from public.orders o
+  where o.branch_id = new.branch_id and o.business_date = new.business_date;
+  return new;
+end;
+$$;
+
+-- The baseline stamped business_date and order_no with a trigger this repo doesn't
+-- name, and an earlier draft of this migration stacked orders_000_set_business_date
+-- in front of it. Drop the one we know; for anything else still assigning either
+-- column, stop here so it can be dropped by name first, instead of two triggers
+-- numbering the same order.
+drop trigger if exists orders_000_set_business_date on public.orders;
+drop function if exists public.orders_set_business_date();
+
+do $$
+declare
+  v_names text;
+begin
+  select string_agg(tg.tgname, ', ')
+  into v_names
+  from pg_trigger tg
+  join pg_proc p on p.oid = tg.tgfoid
+  where tg.tgrelid = 'public.orders'::regclass
+    and not tg.tgisinternal
+    and tg.tgname <> 'orders_set_business_day'
+    and p.prosrc ~* '(new\.(order_no|business_date)\s*:?=|into\s+new\.(order_no|business_date))';
+  if v_names is not null then
+    raise exception 'orders already has a trigger assigning order_no/business_date (%); drop it by name before applying this migration', v_names;
+  end if;
+end;
+$$;
+
+drop trigger if exists orders_set_business_day on public.orders;
+create trigger orders_set_business_day
+  before insert on public.orders
+  for each row execute function public.orders_set_business_day();
+
+-- Same as the eod_closings version, minus the closed-day reroute: the insert trigger
+-- above already puts the order on an open business day and numbers it there.
+create or replace function public.place_order(p_order jsonb, p_lines jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_in public.orders%rowtype;
+  v_order public.orders%rowtype;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Order has no lines';
+  end if;
+  -- a discount can bring the total to zero, and then there is nothing to tender
+  if jsonb_typeof(p_payments) <> 'array'
+     or (jsonb_array_length(p_payments) = 0 and coalesce((p_order->>'total_amount')::numeric, 0) <> 0) then
+    raise exception 'Order has no payments';
+  end if;
+
+  v_in := jsonb_populate_record(null::public.orders, p_order);
+
+  if v_in.idempotency_key is null then
+    raise exception 'idempotency_key is required';
+  end if;
+
+  -- keys are matched within the branch, so a replay never hands back another branch's order
+  select * into v_order from public.orders where idempotency_key = v_in.idempotency_key and branch_id = v_in.branch_id;
+  if found then
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'invoice_no', v_order.invoice_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end if;
+
+  -- created_at is when the cashier rang it up, which for a replayed offline order is in the past
+  begin
+    insert into public.orders (
+      branch_id, created_by, payment_type, status, total_amount, idempotency_key, created_at,
+      amount_tendered, change_due, shift_id,
+      subtotal_amount, discount_type, discount_value, discount_amount, discount_id_no, discount_holder,
+      order_type, table_no, platform, platform_ref, fee_label, fee_amount, platform_commission,
+      vatable_sales, vat_amount, vat_exempt_sales, zero_rated_sales
+    )
+    values (
+      v_in.branch_id, v_in.created_by, v_in.payment_type, 'NEW', v_in.total_amount, v_in.idempotency_key, coalesce(v_in.created_at, now()),
+      v_in.amount_tendered, v_in.change_due, v_in.shift_id,
+      coalesce(v_in.subtotal_amount, v_in.total_amount), v_in.discount_type, v_in.discount_value,
+      coalesce(v_in.discount_amount, 0), v_in.discount_id_no, v_in.discount_holder,
+      v_in.order_type, v_in.table_no, v_in.platform, v_in.platform_ref, v_in.fee_label, coalesce(v_in.fee_amount, 0),
+      v_in.platform_commission,
+      v_in.vatable_sales, v_in.vat_amount, v_in.vat_exempt_sales, coalesce(v_in.zero_rated_sales, 0)
+    )
+    returning * into v_order;
+  exception when unique_violation then
+    -- a concurrent request with the same key committed first (double tap / retry racing a slow reply)
+    select * into v_order from public.orders where idempotency_key = v_in.idempotency_key and branch_id = v_in.branch_id;
+    if not found then
+      raise;
+    end if;
+    return jsonb_build_object(
+      'id', v_order.id,
+      'order_no', v_order.order_no,
+      'invoice_no', v_order.invoice_no,
+      'business_date', v_order.business_date,
+      'duplicate', true
+    );
+  end;
+
+  insert into public.order_lines (
+    order_id, menu_item_id, qty, unit_price, modifiers, discount_type, discount_value, discount_amount, line_total
+  )
+  select v_order.id, l.menu_item_id, l.qty, l.unit_price, coalesce(l.modifiers, '[]'::jsonb), l.discount_type, l.discount_value,
+    coalesce(l.discount_amount, 0), l.line_total
+  from jsonb_populate_recordset(null::public.order_lines, p_lines) as l;
+
+  insert into public.order_payments (order_id, method, amount, reference)
+  select v_order.id, p.method, p.amount, p.reference
+  from jsonb_populate_recordset(null::public.order_payments, p_payments) as p;
+
+  select coalesce(sum(amount), 0) into v_paid from public.order_payments where order_id = v_order.id;
+  if v_paid <> v_order.total_amount then
+    raise exception 'Payments (%) do not add up to the order total (%)', v_paid, v_order.total_amount;
+  end if;
+
+  update public.orders
+  set status = 'PAID'
+  where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object(
+    'id', v_order.id,
+    'order_no', v_order.order_no,
+    'invoice_no', v_order.invoice_no,
+    'business_date', v_order.business_date,
+    'duplicate', false
+  );
+end;
+$$;
+
+revoke all on function public.place_order(jsonb, jsonb, jsonb) from public, anon, authenticated;
+
+-- dashboards now filter on business_date instead of created_at windows
+create index if not exists orders_business_date_idx on public.orders (business_date, branch_id);